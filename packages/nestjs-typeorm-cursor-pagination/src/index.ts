@@ -1,20 +1,53 @@
 export { NodeEntity, NodeEntityWithDates } from './lib/entities/NodeEntity';
-export { Cursor } from './lib/pagination/cursor';
+export { Cursor, CursorOptions } from './lib/pagination/cursor';
+export { CursorPayload } from './lib/pagination/cursor-payload';
 export { PageInfo } from './lib/pagination/page-info';
-export { paginate } from './lib/pagination/paginate';
+export { getCursorForId, paginate } from './lib/pagination/paginate';
+export { paginateAll } from './lib/pagination/paginate-all';
+export { paginateRepository } from './lib/pagination/paginate-repository';
 export {
   IEdgeType,
   IPaginatedType,
   Paginated,
+  PaginatedOptions,
 } from './lib/pagination/paginated';
 export { PaginationArgs } from './lib/pagination/pagination.args';
+export {
+  CursorMismatchError,
+  InvalidCursorError,
+  NodeNotFoundError,
+  PageSizeExceededError,
+} from './lib/pagination/pagination.errors';
+export {
+  PageSizeOptions,
+  PaginateAllOptions,
+  PaginateOptions,
+  configurePagination,
+} from './lib/pagination/pagination.options';
+export { SortKey } from './lib/pagination/sort-key';
 export { FilterQueryBuilder } from './lib/query-builder/filter-query-builder';
+export {
+  EmptyFilterValueError,
+  InvalidFilterValueError,
+  UnknownFilterFieldError,
+  UnknownFilterRelationError,
+} from './lib/query-builder/filter.errors';
+export {
+  EmptyValuePolicy,
+  FilterField,
+  FilterOptions,
+  configureFilters,
+} from './lib/query-builder/filter.options';
 export { FilterInput } from './lib/query-builder/inputs/filter.input';
 export { FiltersExpression } from './lib/query-builder/inputs/filters-expression.input';
 export { JoinBuilder } from './lib/query-builder/join-builder';
 export { ComparisonOperatorEnum } from './lib/query-builder/operators/comparison-operator.enum';
 export { LogicalOperatorEnum } from './lib/query-builder/operators/logical-operator.enum';
-export { SortDirectionEnum, OrderByInput } from './lib/query-builder/order-by.input';
+export {
+  SortDirectionEnum,
+  SortNullsEnum,
+  OrderByInput,
+} from './lib/query-builder/order-by.input';
 export { buildFiltersExpressionFromQueryString } from './lib/query-builder/search-like-filter';
 export { WhereBuilder } from './lib/query-builder/where-builder';
 export { BaseEntityPaginationService } from './lib/services/base-entity-pagination.service';
@@ -0,0 +1,353 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { DataSource, Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  TestProduct,
+  createTestDatabase,
+  seedTestData,
+  closeTestDatabase,
+} from '../../test-utils/test-database.setup.js';
+import { FilterQueryBuilder } from '../../query-builder/filter-query-builder.js';
+import { FilterOptions } from '../../query-builder/filter.options.js';
+import {
+  InvalidFilterValueError,
+  UnknownFilterFieldError,
+  UnknownFilterRelationError,
+} from '../../query-builder/filter.errors.js';
+import { FilterInput } from '../../query-builder/inputs/filter.input.js';
+import { ComparisonOperatorEnum } from '../../query-builder/operators/comparison-operator.enum.js';
+import { LogicalOperatorEnum } from '../../query-builder/operators/logical-operator.enum.js';
+
+/**
+ * Filter fields checked against the entity metadata of the query, or an
+ * allowlist, before any SQL is built from them.
+ */
+describe('filter fields', () => {
+  let dataSource: DataSource;
+  let productRepo: Repository<TestProduct>;
+
+  beforeAll(async () => {
+    dataSource = await createTestDatabase();
+    await seedTestData(dataSource);
+    productRepo = dataSource.getRepository(TestProduct);
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase(dataSource);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function buildQuery(
+    filters: FilterInput[],
+    options?: FilterOptions,
+    operator = LogicalOperatorEnum.AND,
+  ) {
+    return new FilterQueryBuilder(
+      productRepo,
+      { operator, filters },
+      options,
+    ).build();
+  }
+
+  async function filterIds(
+    filters: FilterInput[],
+    options?: FilterOptions,
+  ): Promise<string[]> {
+    const products = await buildQuery(filters, options)
+      .orderBy('TestProduct.id')
+      .getMany();
+    return products.map((product) => product.id);
+  }
+
+  describe('entity metadata', () => {
+    it('should filter on a column of the query', async () => {
+      const ids = await filterIds([
+        {
+          field: 'TestProduct.category',
+          operator: ComparisonOperatorEnum.EQUAL,
+          value: 'Clothing',
+        },
+      ]);
+
+      expect(ids).toHaveLength(10);
+    });
+
+    it('should filter on a column of a joined relation', async () => {
+      const ids = await filterIds([
+        {
+          field: 'Category.slug',
+          operator: ComparisonOperatorEnum.EQUAL,
+          value: 'books',
+          relationField: 'TestProduct.categoryRelation',
+        },
+      ]);
+
+      expect(ids).toHaveLength(15);
+      expect(ids[0]).toBe('prod-16');
+    });
+
+    it('should reject SQL in a field before building any SQL', () => {
+      const where = jest.spyOn(SelectQueryBuilder.prototype, 'where');
+
+      expect(() =>
+        buildQuery([
+          {
+            field: '1 = 1 OR TestProduct.id',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'x',
+          },
+        ]),
+      ).toThrow(UnknownFilterFieldError);
+      expect(where).not.toHaveBeenCalled();
+    });
+
+    it('should reject a property that is not a column', () => {
+      expect(() =>
+        buildQuery([
+          {
+            field: 'TestProduct.password',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'x',
+          },
+        ]),
+      ).toThrow('Unknown filter field "TestProduct.password"');
+    });
+
+    it('should reject an alias that is not one of the query', () => {
+      expect(() =>
+        buildQuery([
+          {
+            field: 'test_products.name',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'x',
+          },
+        ]),
+      ).toThrow(UnknownFilterFieldError);
+    });
+
+    it('should reject a relation that is not one of the entity before joining it', () => {
+      const join = jest.spyOn(
+        SelectQueryBuilder.prototype,
+        'leftJoinAndSelect',
+      );
+
+      expect(() =>
+        buildQuery([
+          {
+            field: 'Category.name',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'x',
+            relationField: 'TestProduct.category',
+          },
+        ]),
+      ).toThrow(UnknownFilterRelationError);
+      expect(join).not.toHaveBeenCalled();
+    });
+
+    it('should reject a join under an alias of the query', () => {
+      expect(() =>
+        buildQuery([
+          {
+            field: 'TestProduct.name',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'x',
+            relationField: 'TestProduct.categoryRelation',
+          },
+        ]),
+      ).toThrow(UnknownFilterRelationError);
+    });
+
+    it('should reject an unknown logical operator', () => {
+      expect(() =>
+        buildQuery(
+          [
+            {
+              field: 'TestProduct.name',
+              operator: ComparisonOperatorEnum.EQUAL,
+              value: 'x',
+            },
+          ],
+          undefined,
+          '1 = 1 OR' as LogicalOperatorEnum,
+        ),
+      ).toThrow('Unknown logical operator: 1 = 1 OR');
+    });
+  });
+
+  describe('allowlist', () => {
+    const options: FilterOptions = {
+      fields: {
+        name: 'TestProduct.name',
+        category: {
+          field: 'Category.name',
+          relationField: 'TestProduct.categoryRelation',
+        },
+      },
+    };
+
+    it('should map public field names to columns', async () => {
+      const ids = await filterIds(
+        [
+          {
+            field: 'category',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'Electronics',
+          },
+          {
+            field: 'name',
+            operator: ComparisonOperatorEnum.LIKE,
+            value: 'Laptop 1',
+          },
+        ],
+        options,
+      );
+
+      expect(ids).toEqual([
+        'prod-01',
+        'prod-10',
+        'prod-11',
+        'prod-12',
+        'prod-13',
+        'prod-14',
+        'prod-15',
+      ]);
+    });
+
+    it('should reject a column that is not allowlisted', () => {
+      expect(() =>
+        buildQuery(
+          [
+            {
+              field: 'TestProduct.price',
+              operator: ComparisonOperatorEnum.EQUAL,
+              value: 600,
+            },
+          ],
+          options,
+        ),
+      ).toThrow('Unknown filter field "TestProduct.price"');
+    });
+
+    it('should reject inherited property names', () => {
+      expect(() =>
+        buildQuery(
+          [
+            {
+              field: 'constructor',
+              operator: ComparisonOperatorEnum.EQUAL,
+              value: 'x',
+            },
+          ],
+          options,
+        ),
+      ).toThrow(UnknownFilterFieldError);
+    });
+
+    it('should reject a relation set by the client', () => {
+      expect(() =>
+        buildQuery(
+          [
+            {
+              field: 'name',
+              operator: ComparisonOperatorEnum.EQUAL,
+              value: 'x',
+              relationField: 'TestProduct.reviews',
+            },
+          ],
+          options,
+        ),
+      ).toThrow(UnknownFilterRelationError);
+    });
+  });
+
+  describe('values', () => {
+    it('should coerce numeric strings', async () => {
+      const ids = await filterIds([
+        {
+          field: 'TestProduct.stock',
+          operator: ComparisonOperatorEnum.IN,
+          value: ['5', '10'],
+        },
+      ]);
+
+      expect(ids).toEqual(['prod-01', 'prod-02', 'prod-20']);
+    });
+
+    it('should coerce ISO 8601 strings to dates', async () => {
+      const ids = await filterIds([
+        {
+          field: 'TestProduct.createdAt',
+          operator: ComparisonOperatorEnum.GREATER_THAN_OR_EQUAL,
+          value: '2024-01-31',
+        },
+      ]);
+
+      expect(ids).toHaveLength(11);
+    });
+
+    it('should coerce boolean strings', async () => {
+      await productRepo.update(['prod-03', 'prod-17'], { featured: true });
+
+      try {
+        const ids = await filterIds([
+          {
+            field: 'TestProduct.featured',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'true',
+          },
+        ]);
+
+        expect(ids).toEqual(['prod-03', 'prod-17']);
+      } finally {
+        await productRepo.update(['prod-03', 'prod-17'], { featured: false });
+      }
+    });
+
+    it('should reject a value that does not fit the column', () => {
+      expect(() =>
+        buildQuery([
+          {
+            field: 'TestProduct.price',
+            operator: ComparisonOperatorEnum.EQUAL,
+            value: 'abc',
+          },
+        ]),
+      ).toThrow(
+        'Invalid value for filter field "TestProduct.price": expected a number',
+      );
+      expect(() =>
+        buildQuery([
+          {
+            field: 'TestProduct.createdAt',
+            operator: ComparisonOperatorEnum.LESS_THAN,
+            value: 'yesterday',
+          },
+        ]),
+      ).toThrow(InvalidFilterValueError);
+    });
+  });
+});
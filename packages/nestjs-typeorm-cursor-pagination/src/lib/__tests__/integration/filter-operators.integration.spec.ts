@@ -0,0 +1,334 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { DataSource, Repository } from 'typeorm';
+import {
+  TestLabeledItem,
+  TestProduct,
+  createTestDatabase,
+  seedTestData,
+  closeTestDatabase,
+} from '../../test-utils/test-database.setup.js';
+import { FilterQueryBuilder } from '../../query-builder/filter-query-builder.js';
+import { ComparisonOperatorEnum } from '../../query-builder/operators/comparison-operator.enum.js';
+import { LogicalOperatorEnum } from '../../query-builder/operators/logical-operator.enum.js';
+import { FilterOptions } from '../../query-builder/filter.options.js';
+import { buildFiltersExpressionFromQueryString } from '../../query-builder/search-like-filter.js';
+
+/**
+ * Every comparison operator run against a real database. The Postgres suite
+ * runs against an empty database whose URL is set in TEST_POSTGRES_URL, with
+ * the `pg` driver installed.
+ */
+const postgresUrl = process.env['TEST_POSTGRES_URL'];
+
+describe('filter operators on SQLite', () => {
+  describeFilterOperators();
+});
+
+(postgresUrl ? describe : describe.skip)('filter operators on Postgres', () => {
+  describeFilterOperators(postgresUrl);
+});
+
+function describeFilterOperators(url?: string) {
+  let dataSource: DataSource;
+  let productRepo: Repository<TestProduct>;
+
+  beforeAll(async () => {
+    dataSource = await createTestDatabase(url);
+    await seedTestData(dataSource);
+    productRepo = dataSource.getRepository(TestProduct);
+
+    await productRepo.update('prod-01', { tags: ['sale', 'new'] });
+    await productRepo.update('prod-16', { tags: ['new'] });
+    await productRepo.update('prod-31', { tags: ['clearance'] });
+    await productRepo.update('prod-02', { tags: [] });
+    await productRepo.update('prod-03', { description: () => 'NULL' });
+    await productRepo.update('prod-04', { description: '' });
+    await productRepo.update('prod-35', { description: 'Now 50% off' });
+    await productRepo.update('prod-36', { description: 'Over 500 sold' });
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase(dataSource);
+  });
+
+  async function filterIds(
+    field: string,
+    operator: ComparisonOperatorEnum,
+    value?: unknown,
+    options?: FilterOptions,
+  ): Promise<string[]> {
+    const products = await new FilterQueryBuilder(
+      productRepo,
+      {
+        operator: LogicalOperatorEnum.AND,
+        filters: [{ field, operator, value }],
+      },
+      options,
+    )
+      .build()
+      .orderBy('TestProduct.id')
+      .getMany();
+    return products.map((product) => product.id);
+  }
+
+  it('should match any of the values with ANY', async () => {
+    await expect(
+      filterIds('TestProduct.id', ComparisonOperatorEnum.ANY, [
+        'prod-03',
+        'prod-01',
+        'prod-99',
+      ]),
+    ).resolves.toEqual(['prod-01', 'prod-03']);
+  });
+
+  it('should leave out the values with NOT_IN', async () => {
+    const ids = await filterIds(
+      'TestProduct.category',
+      ComparisonOperatorEnum.NOT_IN,
+      ['Electronics', 'Books'],
+    );
+
+    expect(ids).toHaveLength(10);
+    expect(ids[0]).toBe('prod-31');
+  });
+
+  it('should match a substring with CONTAINS', async () => {
+    await expect(
+      filterIds('TestProduct.name', ComparisonOperatorEnum.CONTAINS, 'Book 1'),
+    ).resolves.toEqual([
+      'prod-16',
+      'prod-25',
+      'prod-26',
+      'prod-27',
+      'prod-28',
+      'prod-29',
+      'prod-30',
+    ]);
+  });
+
+  it('should leave out a substring with NOT_LIKE', async () => {
+    const ids = await filterIds(
+      'TestProduct.name',
+      ComparisonOperatorEnum.NOT_LIKE,
+      'Laptop',
+    );
+
+    expect(ids).toHaveLength(25);
+    expect(ids[0]).toBe('prod-16');
+  });
+
+  // `tags` is a JSON array, while OVERLAP needs a native array on Postgres,
+  // where it runs against the labels of `TestLabeledItem` below
+  (url ? it.skip : it)(
+    'should match a JSON array with any element in common with OVERLAP',
+    async () => {
+      await expect(
+        filterIds('TestProduct.tags', ComparisonOperatorEnum.OVERLAP, [
+          'new',
+          'clearance',
+        ]),
+      ).resolves.toEqual(['prod-01', 'prod-16', 'prod-31']);
+    },
+  );
+
+  (url ? describe : describe.skip)('native arrays', () => {
+    let itemRepo: Repository<TestLabeledItem>;
+
+    beforeAll(async () => {
+      itemRepo = dataSource.getRepository(TestLabeledItem);
+      await itemRepo.save([
+        { id: 'item-1', labels: ['sale', 'new'] },
+        { id: 'item-2', labels: ['new'] },
+        { id: 'item-3', labels: ['clearance'] },
+        { id: 'item-4', labels: [] },
+      ]);
+    });
+
+    async function filterItemIds(
+      field: string,
+      operator: ComparisonOperatorEnum,
+      value?: unknown,
+    ): Promise<string[]> {
+      const items = await new FilterQueryBuilder(itemRepo, {
+        operator: LogicalOperatorEnum.AND,
+        filters: [{ field, operator, value }],
+      })
+        .build()
+        .orderBy('TestLabeledItem.id')
+        .getMany();
+      return items.map((item) => item.id);
+    }
+
+    it('should bind the values as an array with ANY', async () => {
+      await expect(
+        filterItemIds('TestLabeledItem.id', ComparisonOperatorEnum.ANY, [
+          'item-4',
+          'item-2',
+        ]),
+      ).resolves.toEqual(['item-2', 'item-4']);
+    });
+
+    it('should match an array with any element in common with OVERLAP', async () => {
+      await expect(
+        filterItemIds(
+          'TestLabeledItem.labels',
+          ComparisonOperatorEnum.OVERLAP,
+          ['new', 'clearance'],
+        ),
+      ).resolves.toEqual(['item-1', 'item-2', 'item-3']);
+    });
+
+    it('should take a single value with ANY and OVERLAP', async () => {
+      await expect(
+        filterItemIds(
+          'TestLabeledItem.id',
+          ComparisonOperatorEnum.ANY,
+          'item-2',
+        ),
+      ).resolves.toEqual(['item-2']);
+      await expect(
+        filterItemIds(
+          'TestLabeledItem.labels',
+          ComparisonOperatorEnum.OVERLAP,
+          'new',
+        ),
+      ).resolves.toEqual(['item-1', 'item-2']);
+    });
+
+    it('should match empty arrays with IS_EMPTY', async () => {
+      await expect(
+        filterItemIds(
+          'TestLabeledItem.labels',
+          ComparisonOperatorEnum.IS_EMPTY,
+        ),
+      ).resolves.toEqual(['item-4']);
+    });
+  });
+
+  it('should match null values with IS_NULL', async () => {
+    await expect(
+      filterIds('TestProduct.description', ComparisonOperatorEnum.IS_NULL),
+    ).resolves.toEqual(['prod-03']);
+  });
+
+  it('should leave out null values with IS_NOT_NULL', async () => {
+    const ids = await filterIds(
+      'TestProduct.description',
+      ComparisonOperatorEnum.IS_NOT_NULL,
+    );
+
+    expect(ids).toHaveLength(39);
+    expect(ids).not.toContain('prod-03');
+  });
+
+  it('should match null and empty strings with IS_EMPTY', async () => {
+    await expect(
+      filterIds('TestProduct.description', ComparisonOperatorEnum.IS_EMPTY),
+    ).resolves.toEqual(['prod-03', 'prod-04']);
+  });
+
+  it('should match empty JSON arrays with IS_EMPTY', async () => {
+    const ids = await filterIds(
+      'TestProduct.tags',
+      ComparisonOperatorEnum.IS_EMPTY,
+    );
+
+    expect(ids).toHaveLength(37);
+    expect(ids).toContain('prod-02');
+    expect(ids).not.toContain('prod-01');
+  });
+
+  it('should match non-empty JSON arrays with IS_NOT_EMPTY', async () => {
+    await expect(
+      filterIds('TestProduct.tags', ComparisonOperatorEnum.IS_NOT_EMPTY),
+    ).resolves.toEqual(['prod-01', 'prod-16', 'prod-31']);
+  });
+
+  it('should only match null values of other columns with IS_EMPTY', async () => {
+    await expect(
+      filterIds('TestProduct.price', ComparisonOperatorEnum.IS_EMPTY),
+    ).resolves.toEqual([]);
+  });
+
+  it('should match nothing for an empty value with the match-nothing policy', async () => {
+    await expect(
+      filterIds('TestProduct.category', ComparisonOperatorEnum.IN, [], {
+        emptyValuePolicy: 'match-nothing',
+      }),
+    ).resolves.toEqual([]);
+    await expect(
+      filterIds('TestProduct.category', ComparisonOperatorEnum.IN, []),
+    ).resolves.toHaveLength(40);
+  });
+
+  it('should ignore case with ILIKE', async () => {
+    const ids = await filterIds(
+      'TestProduct.name',
+      ComparisonOperatorEnum.ILIKE,
+      'LAPTOP 1',
+    );
+
+    expect(ids).toEqual([
+      'prod-01',
+      'prod-10',
+      'prod-11',
+      'prod-12',
+      'prod-13',
+      'prod-14',
+      'prod-15',
+    ]);
+  });
+
+  it('should match wildcards literally', async () => {
+    await expect(
+      filterIds(
+        'TestProduct.description',
+        ComparisonOperatorEnum.CONTAINS,
+        '50%',
+      ),
+    ).resolves.toEqual(['prod-35']);
+    await expect(
+      filterIds(
+        'TestProduct.description',
+        ComparisonOperatorEnum.ILIKE,
+        'MODEL_1',
+      ),
+    ).resolves.toEqual([]);
+  });
+
+  it('should search with a filters expression built from a query string', async () => {
+    const products = await new FilterQueryBuilder(
+      productRepo,
+      buildFiltersExpressionFromQueryString('SHIRT', 'TestProduct', [
+        'name',
+        'category',
+      ]),
+    )
+      .build()
+      .getMany();
+
+    expect(products).toHaveLength(10);
+  });
+}
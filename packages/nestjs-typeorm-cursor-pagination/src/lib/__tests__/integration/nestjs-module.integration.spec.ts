@@ -209,8 +209,10 @@ describe('NestJS Module Integration', () => {
       // Verify cursor encoding includes both price and id
       expect(page1.pageInfo.endCursor).toBeTruthy();
       const endCursor = page1.pageInfo.endCursor!;
-      const decoded = Buffer.from(endCursor, 'base64').toString('utf-8');
-      expect(decoded).toContain('|'); // Multi-column cursor format: value|id
+      const decoded = JSON.parse(
+        Buffer.from(endCursor, 'base64').toString('utf-8')
+      );
+      expect(decoded.k).toHaveLength(2); // Multi-column cursor payload: value, id
     });
   });
 
@@ -0,0 +1,211 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DataSource, Repository } from 'typeorm';
+import {
+  TestProduct,
+  createTestDatabase,
+  seedTestData,
+  closeTestDatabase,
+} from '../../test-utils/test-database.setup.js';
+import { PaginationArgs } from '../../pagination/pagination.args.js';
+import { CountStrategy } from '../../pagination/pagination.options.js';
+import { paginate } from '../../pagination/paginate.js';
+
+/**
+ * Conformance tests against the Relay Cursor Connections specification:
+ * https://relay.dev/graphql/connections.htm#sec-Pagination-algorithm
+ *
+ * Every combination of `first`, `last`, `after` and `before` is compared with
+ * a reference implementation of the algorithm over the full, sorted list.
+ */
+describe('Relay Cursor Connections conformance', () => {
+  let dataSource: DataSource;
+  let productRepo: Repository<TestProduct>;
+  let allIds: string[];
+  let cursors: string[];
+
+  const defaultPageSize = 25;
+  const pageSizes = [undefined, 0, 2, 5, 50];
+  const cursorPositions: [string, number | undefined, number | undefined][] = [
+    ['no cursors', undefined, undefined],
+    ['after', 4, undefined],
+    ['before', undefined, 10],
+    ['after and before', 4, 10],
+    ['after and before near the end', 30, 35],
+    ['after past before', 30, 10],
+  ];
+  const pageSizePairs = pageSizes.flatMap((first) =>
+    pageSizes.map((last) => [first, last] as const),
+  );
+
+  beforeAll(async () => {
+    dataSource = await createTestDatabase();
+    await seedTestData(dataSource);
+    productRepo = dataSource.getRepository(TestProduct);
+
+    const all = await paginate(
+      productRepo.createQueryBuilder('product'),
+      { first: 100 },
+      'product.id',
+    );
+    allIds = all.edges.map((edge) => edge.node.id);
+    cursors = all.edges.map((edge) => edge.cursor);
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase(dataSource);
+  });
+
+  /**
+   * The pagination algorithm of the specification, where `MAY` clauses are
+   * answered with whether elements exist beyond the cursor.
+   */
+  function reference(
+    afterIndex: number | undefined,
+    beforeIndex: number | undefined,
+    first: number | undefined,
+    last: number | undefined,
+  ) {
+    // ApplyCursorsToEdges
+    let window = allIds;
+    if (afterIndex !== undefined) {
+      window = window.filter((_, index) => index > afterIndex);
+    }
+    if (beforeIndex !== undefined) {
+      window = window.filter((id) => allIds.indexOf(id) < beforeIndex);
+    }
+
+    // EdgesToReturn, where `first` defaults to the default page size
+    const effectiveFirst =
+      first === undefined && last === undefined ? defaultPageSize : first;
+    let edges = window;
+    if (effectiveFirst !== undefined && edges.length > effectiveFirst) {
+      edges = edges.slice(0, effectiveFirst);
+    }
+    if (last !== undefined && edges.length > last) {
+      edges = edges.slice(edges.length - last);
+    }
+
+    // HasPreviousPage and HasNextPage
+    let hasPreviousPage = false;
+    if (last !== undefined) {
+      hasPreviousPage = window.length > last;
+    } else if (afterIndex !== undefined) {
+      hasPreviousPage = true;
+    }
+    let hasNextPage = false;
+    if (effectiveFirst !== undefined) {
+      hasNextPage = window.length > effectiveFirst;
+    } else if (beforeIndex !== undefined) {
+      hasNextPage = true;
+    }
+
+    return { edges, hasPreviousPage, hasNextPage };
+  }
+
+  function getArgs(
+    afterIndex: number | undefined,
+    beforeIndex: number | undefined,
+    first: number | undefined,
+    last: number | undefined,
+  ): PaginationArgs {
+    return {
+      first,
+      last,
+      after: afterIndex === undefined ? undefined : cursors[afterIndex],
+      before: beforeIndex === undefined ? undefined : cursors[beforeIndex],
+    };
+  }
+
+  describe.each(cursorPositions)('with %s', (_, afterIndex, beforeIndex) => {
+    it.each(pageSizePairs)(
+      'should match the specification for first %p and last %p',
+      async (first, last) => {
+        const expected = reference(afterIndex, beforeIndex, first, last);
+
+        const result = await paginate(
+          productRepo.createQueryBuilder('product'),
+          getArgs(afterIndex, beforeIndex, first, last),
+          'product.id',
+        );
+
+        expect(result.edges.map((edge) => edge.node.id)).toEqual(
+          expected.edges,
+        );
+        expect(result.pageInfo.hasPreviousPage).toBe(expected.hasPreviousPage);
+        expect(result.pageInfo.hasNextPage).toBe(expected.hasNextPage);
+        expect(result.pageInfo.totalCount).toBe(allIds.length);
+        if (expected.edges.length > 0) {
+          expect(result.pageInfo.countBefore).toBe(
+            allIds.indexOf(expected.edges[0]),
+          );
+        }
+      },
+    );
+  });
+
+  describe.each<CountStrategy>(['probe'])(
+    'with the %s count strategy',
+    (countStrategy) => {
+      it.each(pageSizePairs)(
+        'should return the same edges and required flags for first %p and last %p',
+        async (first, last) => {
+          const expected = reference(4, 35, first, last);
+
+          const result = await paginate(
+            productRepo.createQueryBuilder('product'),
+            getArgs(4, 35, first, last),
+            'product.id',
+            { countStrategy },
+          );
+
+          expect(result.edges.map((edge) => edge.node.id)).toEqual(
+            expected.edges,
+          );
+          expect(result.pageInfo.hasPreviousPage).toBe(
+            expected.hasPreviousPage,
+          );
+          expect(result.pageInfo.hasNextPage).toBe(expected.hasNextPage);
+          expect(result.pageInfo.totalCount).toBeNull();
+        },
+      );
+    },
+  );
+
+  it('should report no previous page past the start without counts', async () => {
+    const result = await paginate(
+      productRepo.createQueryBuilder('product'),
+      { last: 5, before: cursors[3] },
+      'product.id',
+      { countStrategy: 'probe' },
+    );
+
+    expect(result.edges.map((edge) => edge.node.id)).toEqual(
+      allIds.slice(0, 3),
+    );
+    expect(result.pageInfo.hasPreviousPage).toBe(false);
+    expect(result.pageInfo.hasNextPage).toBe(true);
+  });
+});
@@ -246,9 +246,11 @@ describe('Service Extension Integration', () => {
 
       // Verify cursor is based on stock by checking multi-column format
       if (result.pageInfo.endCursor) {
-        const decoded = Buffer.from(result.pageInfo.endCursor, 'base64').toString('utf-8');
-        // Multi-column cursor format: stock|id
-        expect(decoded).toContain('|');
+        const decoded = JSON.parse(
+          Buffer.from(result.pageInfo.endCursor, 'base64').toString('utf-8')
+        );
+        // Multi-column cursor payload: stock, id
+        expect(decoded.c).toEqual(['product.stock', 'product.id']);
       }
     });
 
@@ -302,10 +304,13 @@ describe('Service Extension Integration', () => {
 
       expect(page1.pageInfo.endCursor).toBeTruthy();
       const endCursor = page1.pageInfo.endCursor!;
-      const decoded = Buffer.from(endCursor, 'base64').toString('utf-8');
+      const decoded = JSON.parse(
+        Buffer.from(endCursor, 'base64').toString('utf-8')
+      );
 
-      // Multi-column cursor format: price|id
-      expect(decoded).toContain('|');
+      // Multi-column cursor payload: price, id
+      expect(decoded.c).toEqual(['product.price', 'product.id']);
+      expect(typeof decoded.k[0]).toBe('number');
     });
 
     it('should filter by category with joins', async () => {
@@ -0,0 +1,358 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { DataSource, Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  TestProduct,
+  TestReview,
+  createTestDatabase,
+  seedTestData,
+  closeTestDatabase,
+} from '../../test-utils/test-database.setup.js';
+import { PaginationArgs } from '../../pagination/pagination.args.js';
+import { IPaginatedType } from '../../pagination/paginated.js';
+import { SortKey } from '../../pagination/sort-key.js';
+import { paginate } from '../../pagination/paginate.js';
+import { SortDirectionEnum } from '../../query-builder/order-by.input.js';
+
+/**
+ * Pagination of queries whose to-many joins repeat each product once per
+ * review. The Postgres suite runs against an empty database whose URL is set
+ * in TEST_POSTGRES_URL, with the `pg` driver installed.
+ */
+const postgresUrl = process.env['TEST_POSTGRES_URL'];
+
+describe('to-many joins on SQLite', () => {
+  describeToManyJoins();
+});
+
+(postgresUrl ? describe : describe.skip)('to-many joins on Postgres', () => {
+  describeToManyJoins(postgresUrl);
+});
+
+function describeToManyJoins(url?: string) {
+  let dataSource: DataSource;
+  let productRepo: Repository<TestProduct>;
+
+  const reviewCounts: Record<string, number> = {
+    'prod-01': 3,
+    'prod-02': 1,
+    'prod-04': 4,
+    'prod-05': 2,
+    'prod-09': 2,
+    'prod-17': 5,
+    'prod-33': 1,
+  };
+
+  beforeAll(async () => {
+    dataSource = await createTestDatabase(url);
+    await seedTestData(dataSource);
+    productRepo = dataSource.getRepository(TestProduct);
+
+    const reviews = Object.entries(reviewCounts).flatMap(([productId, count]) =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `${productId}-review-${i}`,
+        productId,
+        rating: i + 1,
+      })),
+    );
+    await dataSource.getRepository(TestReview).save(reviews);
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase(dataSource);
+  });
+
+  function withReviews(): SelectQueryBuilder<TestProduct> {
+    return productRepo
+      .createQueryBuilder('product')
+      .leftJoinAndSelect('product.reviews', 'review');
+  }
+
+  async function sortedIds(sortKeys: SortKey[]): Promise<string[]> {
+    const { edges } = await paginate(
+      productRepo.createQueryBuilder('product'),
+      { first: 100 },
+      sortKeys,
+    );
+    return edges.map((edge) => edge.node.id);
+  }
+
+  async function walk(
+    createQuery: () => SelectQueryBuilder<TestProduct>,
+    sortKeys: SortKey[],
+    args: (cursor?: string) => PaginationArgs,
+  ): Promise<IPaginatedType<TestProduct>[]> {
+    const pages: IPaginatedType<TestProduct>[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await paginate(createQuery(), args(cursor), sortKeys);
+      pages.push(page);
+      const { hasNextPage, hasPreviousPage, startCursor, endCursor } =
+        page.pageInfo;
+      if (args().last === undefined ? !hasNextPage : !hasPreviousPage) {
+        return pages;
+      }
+      cursor = args().last === undefined ? endCursor : startCursor;
+    }
+  }
+
+  it('should page forward over distinct products', async () => {
+    const pages = await walk(
+      withReviews,
+      [{ column: 'product.id' }],
+      (after) => ({
+        first: 6,
+        after,
+      }),
+    );
+
+    expect(pages.map((page) => page.edges.length)).toEqual([
+      6, 6, 6, 6, 6, 6, 4,
+    ]);
+    expect(
+      pages.flatMap((page) => page.edges.map((edge) => edge.node.id)),
+    ).toEqual(await sortedIds([{ column: 'product.id' }]));
+    for (const { pageInfo } of pages) {
+      expect(pageInfo.totalCount).toBe(40);
+    }
+  });
+
+  it('should load every joined row of each product', async () => {
+    const { edges } = await paginate(
+      withReviews(),
+      { first: 10 },
+      'product.id',
+    );
+
+    for (const { node } of edges) {
+      expect(node.reviews).toHaveLength(reviewCounts[node.id] ?? 0);
+    }
+  });
+
+  it('should page backward over distinct products', async () => {
+    const sortKeys = [
+      { column: 'product.name', direction: SortDirectionEnum.DESC },
+    ];
+    const pages = await walk(withReviews, sortKeys, (before) => ({
+      last: 7,
+      before,
+    }));
+
+    expect(
+      pages.reverse().flatMap((page) => page.edges.map((edge) => edge.node.id)),
+    ).toEqual(await sortedIds(sortKeys));
+    expect(pages[0]?.edges).toHaveLength(5);
+  });
+
+  it('should count products with matching joined rows', async () => {
+    const filtered = () =>
+      withReviews().where('review.rating >= :rating', { rating: 2 });
+
+    const pages = await walk(filtered, [{ column: 'product.id' }], (after) => ({
+      first: 2,
+      after,
+    }));
+
+    expect(
+      pages.flatMap((page) => page.edges.map((edge) => edge.node.id)),
+    ).toEqual(['prod-01', 'prod-04', 'prod-05', 'prod-09', 'prod-17']);
+    expect(pages[1]?.pageInfo).toMatchObject({
+      totalCount: 5,
+      countBefore: 2,
+      countAfter: 1,
+    });
+    expect(pages[0]?.edges[0]?.node.reviews).toHaveLength(2);
+  });
+
+  it('should page over distinct products when sorting by an expression', async () => {
+    const sortKeys = [
+      {
+        column: 'inventoryValue',
+        expression: 'product.price * product.stock',
+        direction: SortDirectionEnum.DESC,
+      },
+    ];
+
+    const pages = await walk(withReviews, sortKeys, (after) => ({
+      first: 9,
+      after,
+    }));
+
+    expect(pages.map((page) => page.edges.length)).toEqual([9, 9, 9, 9, 4]);
+    expect(
+      pages.flatMap((page) => page.edges.map((edge) => edge.node.id)),
+    ).toEqual(await sortedIds(sortKeys));
+    const [first] = pages[0]?.edges ?? [];
+    expect(Number(first?.sortValues?.['inventoryValue'])).toBe(
+      (first?.node.price ?? 0) * (first?.node.stock ?? 0),
+    );
+    expect(first?.node.reviews).toHaveLength(
+      reviewCounts[first?.node.id ?? ''] ?? 0,
+    );
+  });
+
+  it('should number pages of distinct products', async () => {
+    const { edges, pageInfo } = await paginate(
+      withReviews(),
+      { page: 2, pageSize: 5 },
+      'product.id',
+    );
+
+    expect(edges.map((edge) => edge.node.id)).toEqual([
+      'prod-06',
+      'prod-07',
+      'prod-08',
+      'prod-09',
+      'prod-10',
+    ]);
+    expect(pageInfo.pageCount).toBe(8);
+  });
+
+  it('should count a grouped query on the transaction of the query', async () => {
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.startTransaction();
+    try {
+      await queryRunner.manager.save(TestProduct, {
+        id: 'prod-41',
+        name: 'Uncommitted',
+        price: 10,
+        category: 'Books',
+        createdAt: new Date('2024-03-01T00:00:00Z'),
+        stock: 1,
+      });
+      await queryRunner.manager.save(
+        TestReview,
+        Array.from({ length: 6 }, (_, i) => ({
+          id: `prod-41-review-${i}`,
+          productId: 'prod-41',
+          rating: 5,
+        })),
+      );
+
+      const createQuery = () =>
+        queryRunner.manager
+          .getRepository(TestProduct)
+          .createQueryBuilder('product')
+          .leftJoin('product.reviews', 'review')
+          .addSelect('COUNT(review.id)', 'reviewCount')
+          .groupBy('product.id');
+      const sortKeys = [
+        { column: 'reviewCount', direction: SortDirectionEnum.DESC },
+      ];
+      const firstPage = await paginate(createQuery(), { first: 3 }, sortKeys);
+      const secondPage = await paginate(
+        createQuery(),
+        { first: 3, after: firstPage.pageInfo.endCursor },
+        sortKeys,
+      );
+
+      expect(firstPage.edges[0]?.node.id).toBe('prod-41');
+      expect(secondPage.pageInfo).toMatchObject({
+        countBefore: 3,
+        countAfter: 35,
+      });
+    } finally {
+      await queryRunner.rollbackTransaction();
+      await queryRunner.release();
+    }
+  });
+
+  (url ? describe : describe.skip)('microsecond timestamps', () => {
+    const ids = ['usec-1', 'usec-2', 'usec-3'];
+    const newestFirst: SortKey[] = [
+      { column: 'product.createdAt', direction: SortDirectionEnum.DESC },
+    ];
+
+    beforeAll(async () => {
+      await productRepo.save(
+        ids.map((id) => ({
+          id,
+          name: id,
+          price: 10,
+          category: 'Books',
+          createdAt: new Date('2030-01-01T00:00:00Z'),
+        })),
+      );
+      // Rows created within the same millisecond, which a Date cannot tell apart
+      for (const [index, id] of ids.entries()) {
+        await productRepo
+          .createQueryBuilder()
+          .update()
+          .set({ createdAt: () => `'2030-01-01 00:00:00.12345${index}'` })
+          .where('id = :id', { id })
+          .execute();
+      }
+    });
+
+    afterAll(async () => {
+      await productRepo.delete(ids);
+    });
+
+    it.each([
+      ['without joins', () => productRepo.createQueryBuilder('product')],
+      ['with to-many joins', withReviews],
+    ])('should page by timestamps %s', async (_, createQuery) => {
+      const pages = await walk(
+        () => createQuery().where('product.id IN (:...ids)', { ids }),
+        newestFirst,
+        (after) => ({ first: 1, after }),
+      );
+
+      expect(
+        pages.flatMap((page) => page.edges.map((edge) => edge.node.id)),
+      ).toEqual(['usec-3', 'usec-2', 'usec-1']);
+      expect(pages.map((page) => page.pageInfo.countBefore)).toEqual([0, 1, 2]);
+    });
+
+    it('should take a snapshot up to the latest timestamp', async () => {
+      const options = { snapshotColumn: 'product.createdAt' };
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 2 },
+        newestFirst,
+        options,
+      );
+      const secondPage = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 2, after: firstPage.pageInfo.endCursor },
+        newestFirst,
+        options,
+      );
+
+      expect(firstPage.edges.map((edge) => edge.node.id)).toEqual([
+        'usec-3',
+        'usec-2',
+      ]);
+      expect(firstPage.pageInfo).toMatchObject({
+        hasNewerRecords: false,
+        totalCount: 43,
+      });
+      expect(secondPage.edges[0]?.node.id).toBe('usec-1');
+      expect(secondPage.pageInfo).toMatchObject({
+        hasNewerRecords: false,
+        totalCount: 43,
+      });
+    });
+  });
+}
@@ -1,8 +1,9 @@
-export interface NodeEntity {
-  id: string;
+export interface NodeEntity<TId extends string | number | bigint = string> {
+  id: TId;
 }
 
-export type NodeEntityWithDates = NodeEntity & {
-  createdAt: Date;
-  updatedAt?: Date;
-};
+export type NodeEntityWithDates<TId extends string | number | bigint = string> =
+  NodeEntity<TId> & {
+    createdAt: Date;
+    updatedAt?: Date;
+  };
@@ -0,0 +1,291 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+  isCursorPayload,
+  parseCursorPayload,
+  serializeCursorPayload,
+} from './cursor-payload';
+import { CursorMismatchError, InvalidCursorError } from './pagination.errors';
+
+describe('cursor payload', () => {
+  const columns = ['product.createdAt', 'product.id'];
+
+  describe('round-trip serialization', () => {
+    it('should restore dates as Date instances', () => {
+      const createdAt = new Date('2024-01-02T03:04:05.678Z');
+      const serialized = serializeCursorPayload({
+        columns,
+        values: [createdAt, 'prod-01'],
+      });
+
+      const { values } = parseCursorPayload(serialized, columns);
+      expect(values[0]).toBeInstanceOf(Date);
+      expect((values[0] as Date).toISOString()).toBe(createdAt.toISOString());
+      expect(values[1]).toBe('prod-01');
+    });
+
+    it('should keep numbers, booleans and nulls typed', () => {
+      const payloadColumns = ['a', 'b', 'c', 'd'];
+      const serialized = serializeCursorPayload({
+        columns: payloadColumns,
+        values: [42.5, false, null, undefined],
+      });
+
+      expect(parseCursorPayload(serialized, payloadColumns).values).toEqual([
+        42.5,
+        false,
+        null,
+        null,
+      ]);
+    });
+
+    it('should restore bigints', () => {
+      const serialized = serializeCursorPayload({
+        columns: ['id'],
+        values: [BigInt('9007199254740993')],
+      });
+
+      expect(parseCursorPayload(serialized, ['id']).values).toEqual([
+        BigInt('9007199254740993'),
+      ]);
+    });
+
+    it('should keep values containing the legacy delimiter intact', () => {
+      const serialized = serializeCursorPayload({
+        columns,
+        values: ['a|b|c', 'prod|01'],
+      });
+
+      expect(parseCursorPayload(serialized, columns).values).toEqual([
+        'a|b|c',
+        'prod|01',
+      ]);
+    });
+  });
+
+  describe('legacy cursors', () => {
+    it('should accept a single value cursor', () => {
+      expect(
+        parseCursorPayload('prod-01', ['product.id'], undefined, true),
+      ).toEqual({
+        columns: ['product.id'],
+        values: ['prod-01'],
+      });
+    });
+
+    it('should accept a value|id cursor', () => {
+      expect(
+        parseCursorPayload(
+          '600|prod-01',
+          ['product.price', 'product.id'],
+          undefined,
+          true,
+        ).values,
+      ).toEqual(['600', 'prod-01']);
+    });
+
+    it('should reject a legacy cursor with the wrong number of values', () => {
+      expect(() =>
+        parseCursorPayload(
+          '600',
+          ['product.price', 'product.id'],
+          undefined,
+          true,
+        ),
+      ).toThrow(InvalidCursorError);
+    });
+
+    it('should accept a legacy cursor by default', () => {
+      expect(parseCursorPayload('prod-01', ['product.id']).values).toEqual([
+        'prod-01',
+      ]);
+    });
+
+    it('should reject a legacy cursor when legacy cursors are not accepted', () => {
+      expect(() =>
+        parseCursorPayload('zzzz', ['product.id'], undefined, false),
+      ).toThrow(InvalidCursorError);
+      expect(() =>
+        parseCursorPayload(
+          '600|prod-01',
+          ['product.price', 'product.id'],
+          undefined,
+          false,
+        ),
+      ).toThrow(InvalidCursorError);
+    });
+
+    it('should not count as structured payloads', () => {
+      expect(isCursorPayload('600|prod-01')).toBe(false);
+      expect(
+        isCursorPayload(
+          serializeCursorPayload({ columns: ['product.id'], values: ['x'] }),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('fingerprints', () => {
+    it('should keep the fingerprint of the query', () => {
+      const serialized = serializeCursorPayload({
+        columns,
+        values: [null, 'prod-01'],
+        fingerprint: 'abc',
+      });
+
+      expect(parseCursorPayload(serialized, columns, 'abc').fingerprint).toBe(
+        'abc',
+      );
+    });
+
+    it('should reject a cursor issued for another fingerprint', () => {
+      const serialized = serializeCursorPayload({
+        columns,
+        values: [null, 'prod-01'],
+        fingerprint: 'abc',
+      });
+
+      expect(() => parseCursorPayload(serialized, columns, 'xyz')).toThrow(
+        CursorMismatchError,
+      );
+    });
+
+    it('should reject a cursor issued without a fingerprint', () => {
+      const serialized = serializeCursorPayload({
+        columns,
+        values: [null, 'prod-01'],
+      });
+
+      expect(() => parseCursorPayload(serialized, columns, 'xyz')).toThrow(
+        CursorMismatchError,
+      );
+    });
+
+    it('should reject a cursor whose fingerprint was removed', () => {
+      const { f, ...stripped } = JSON.parse(
+        serializeCursorPayload({
+          columns,
+          values: [null, 'prod-01'],
+          fingerprint: 'abc',
+        }),
+      );
+
+      expect(f).toBe('abc');
+      expect(() =>
+        parseCursorPayload(JSON.stringify(stripped), columns, 'abc'),
+      ).toThrow(CursorMismatchError);
+    });
+
+    it('should accept a legacy cursor without a fingerprint', () => {
+      expect(
+        parseCursorPayload('prod-01', ['product.id'], 'abc', true).values,
+      ).toEqual(['prod-01']);
+    });
+
+    it('should reject a fingerprint that is not a string', () => {
+      const serialized = JSON.stringify({
+        v: 1,
+        c: columns,
+        k: [null, 'prod-01'],
+        f: 42,
+      });
+
+      expect(() => parseCursorPayload(serialized, columns)).toThrow(
+        'Cursor is corrupted',
+      );
+    });
+  });
+
+  describe('watermarks', () => {
+    it('should keep the watermark of a snapshot', () => {
+      const watermark = new Date('2024-02-10T00:00:00.000Z');
+      const serialized = serializeCursorPayload({
+        columns,
+        values: [null, 'prod-01'],
+        watermark,
+      });
+
+      expect(parseCursorPayload(serialized, columns).watermark).toEqual(
+        watermark,
+      );
+    });
+
+    it('should leave out the watermark outside of a snapshot', () => {
+      const serialized = serializeCursorPayload({
+        columns,
+        values: [null, 'prod-01'],
+      });
+
+      expect(JSON.parse(serialized)).not.toHaveProperty('w');
+      expect(parseCursorPayload(serialized, columns)).not.toHaveProperty(
+        'watermark',
+      );
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject an unsupported version', () => {
+      const serialized = JSON.stringify({ v: 99, c: ['id'], k: ['1'] });
+
+      expect(() => parseCursorPayload(serialized, ['id'])).toThrow(
+        'Unsupported cursor version: 99',
+      );
+    });
+
+    it('should reject a cursor issued for other columns', () => {
+      const serialized = serializeCursorPayload({
+        columns: ['product.price', 'product.id'],
+        values: [600, 'prod-01'],
+      });
+
+      expect(() => parseCursorPayload(serialized, columns)).toThrow(
+        'Cursor was issued for different sort columns',
+      );
+      expect(() => parseCursorPayload(serialized, columns)).toThrow(
+        CursorMismatchError,
+      );
+    });
+
+    it('should reject a corrupted date', () => {
+      const serialized = JSON.stringify({
+        v: 1,
+        c: columns,
+        k: [{ $date: 'not a date' }, 'prod-01'],
+      });
+
+      expect(() => parseCursorPayload(serialized, columns)).toThrow(
+        'Cursor is corrupted',
+      );
+    });
+
+    it('should reject mismatched columns and values', () => {
+      const serialized = JSON.stringify({ v: 1, c: columns, k: ['x'] });
+
+      expect(() => parseCursorPayload(serialized, columns)).toThrow(
+        'Cursor is corrupted',
+      );
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { CursorMismatchError, InvalidCursorError } from './pagination.errors';
+
+/**
+ * The structured content of a cursor: the sort columns it was issued for, the
+ * value of each column for the row it points to, and optionally a fingerprint
+ * of the query it was issued for and the high-watermark of the snapshot it
+ * belongs to.
+ */
+export interface CursorPayload {
+  columns: string[];
+  values: unknown[];
+  fingerprint?: string;
+  watermark?: unknown;
+}
+
+interface SerializedCursorPayload {
+  v: number;
+  c: string[];
+  k: unknown[];
+  f?: string;
+  w?: unknown;
+}
+
+const cursorPayloadVersion = 1;
+const legacyDelimiter = '|';
+
+/**
+ * Serializes a cursor payload to a versioned JSON string. Values that JSON
+ * cannot represent losslessly (dates and bigints) are tagged, so that they
+ * are restored with their original type.
+ *
+ * @param payload The cursor payload
+ * @returns The serialized cursor payload
+ */
+export function serializeCursorPayload(payload: CursorPayload): string {
+  const serialized: SerializedCursorPayload = {
+    v: cursorPayloadVersion,
+    c: payload.columns,
+    k: payload.values.map(serializeValue),
+  };
+  if (payload.fingerprint !== undefined) {
+    serialized.f = payload.fingerprint;
+  }
+  if (payload.watermark !== undefined) {
+    serialized.w = serializeValue(payload.watermark);
+  }
+  return JSON.stringify(serialized);
+}
+
+/**
+ * Parses a serialized cursor payload.
+ *
+ * @param value The serialized cursor payload
+ * @param columns The sort columns the cursor is expected to hold values for
+ * @param fingerprint The fingerprint of the query the cursor is used with,
+ * which the cursor must carry when given
+ * @param acceptLegacy Whether to accept cursors issued before the payload was
+ * versioned (`value|id` strings), which are assumed to hold one value per
+ * column and carry no fingerprint. Defaults to true
+ * @returns The cursor payload
+ * @throws InvalidCursorError when the payload is malformed, is not a
+ * structured payload (unless legacy cursors are accepted), or does not hold a
+ * value for every column
+ * @throws CursorMismatchError when the cursor was issued for other sort
+ * columns or another fingerprint, or carries no fingerprint
+ */
+export function parseCursorPayload(
+  value: string,
+  columns: string[],
+  fingerprint?: string,
+  acceptLegacy = true,
+): CursorPayload {
+  const serialized = parseSerializedPayload(value);
+  if (!serialized) {
+    if (!acceptLegacy) {
+      throw new InvalidCursorError();
+    }
+    const values =
+      columns.length === 1 ? [value] : value.split(legacyDelimiter);
+    if (values.length !== columns.length) {
+      throw new InvalidCursorError();
+    }
+    return { columns, values };
+  }
+
+  if (serialized.v !== cursorPayloadVersion) {
+    throw new InvalidCursorError(
+      `Unsupported cursor version: ${String(serialized.v)}`,
+    );
+  }
+  if (
+    serialized.c.length !== columns.length ||
+    serialized.c.some((column, index) => column !== columns[index])
+  ) {
+    throw new CursorMismatchError(
+      'Cursor was issued for different sort columns',
+    );
+  }
+  if (fingerprint !== undefined && serialized.f !== fingerprint) {
+    throw new CursorMismatchError();
+  }
+  const payload: CursorPayload = {
+    columns: serialized.c,
+    values: serialized.k.map(deserializeValue),
+    fingerprint: serialized.f,
+  };
+  if (serialized.w !== undefined) {
+    payload.watermark = deserializeValue(serialized.w);
+  }
+  return payload;
+}
+
+/**
+ * Whether a decoded cursor holds a structured payload, as opposed to a legacy
+ * `value|id` string or a value that is not a cursor at all.
+ *
+ * @param value The decoded cursor
+ * @returns Whether the value is a serialized cursor payload
+ * @throws InvalidCursorError when the payload is malformed
+ */
+export function isCursorPayload(value: string): boolean {
+  return parseSerializedPayload(value) !== null;
+}
+
+function parseSerializedPayload(value: string): SerializedCursorPayload | null {
+  if (!value.startsWith('{')) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    !('v' in parsed) ||
+    !('c' in parsed) ||
+    !('k' in parsed)
+  ) {
+    return null;
+  }
+  const { v, c, k, f, w } = parsed as SerializedCursorPayload;
+  if (
+    !Array.isArray(c) ||
+    !Array.isArray(k) ||
+    c.length !== k.length ||
+    c.some((column) => typeof column !== 'string') ||
+    (f !== undefined && typeof f !== 'string')
+  ) {
+    throw new InvalidCursorError('Cursor is corrupted');
+  }
+  return { v, c, k, f, w };
+}
+
+function serializeValue(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  return value;
+}
+
+function deserializeValue(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if ('$date' in value && typeof value.$date === 'string') {
+    const date = new Date(value.$date);
+    if (Number.isNaN(date.getTime())) {
+      throw new InvalidCursorError('Cursor is corrupted');
+    }
+    return date;
+  }
+  if ('$bigint' in value && typeof value.$bigint === 'string') {
+    try {
+      return BigInt(value.$bigint);
+    } catch {
+      throw new InvalidCursorError('Cursor is corrupted');
+    }
+  }
+  throw new InvalidCursorError('Cursor is corrupted');
+}
@@ -23,6 +23,7 @@
  */
 
 import { Cursor } from './cursor';
+import { InvalidCursorError } from './pagination.errors';
 
 describe('Cursor', () => {
   describe('encode', () => {
@@ -134,4 +135,71 @@ describe('Cursor', () => {
       });
     });
   });
+  describe('signed cursors', () => {
+    const secret = 'test-secret';
+
+    it('should round-trip a signed cursor', () => {
+      const encoded = new Cursor('100|prod-01', 'price', { secret }).encode();
+      const decoded = new Cursor(encoded, 'price', { secret }).decode();
+      expect(decoded).toBe('100|prod-01');
+    });
+
+    it('should produce the same cursor for the same value', () => {
+      const first = new Cursor('prod-01', 'id', { secret }).encode();
+      const second = new Cursor('prod-01', 'id', { secret }).encode();
+      expect(first).toBe(second);
+    });
+
+    it('should reject a cursor whose payload was edited', () => {
+      const encoded = new Cursor('100|prod-01', 'price', { secret }).encode();
+      const [, signature] = encoded.split('.');
+      const forged = `${Buffer.from('1|prod-01').toString('base64url')}.${signature}`;
+
+      expect(() => new Cursor(forged, 'price', { secret }).decode()).toThrow(
+        InvalidCursorError,
+      );
+    });
+
+    it('should reject a cursor signed with another secret', () => {
+      const encoded = new Cursor('prod-01', 'id', {
+        secret: 'other-secret',
+      }).encode();
+
+      expect(() => new Cursor(encoded, 'id', { secret }).decode()).toThrow(
+        'Cursor signature does not match',
+      );
+    });
+
+    it('should reject an unsigned legacy cursor', () => {
+      const encoded = new Cursor('prod-01', 'id').encode();
+
+      expect(() => new Cursor(encoded, 'id', { secret }).decode()).toThrow(
+        'Cursor is not signed',
+      );
+    });
+  });
+
+  describe('encrypted cursors', () => {
+    const options = { secret: 'test-secret', encrypt: true };
+
+    it('should round-trip an encrypted cursor', () => {
+      const encoded = new Cursor('100|prod-01', 'price', options).encode();
+      const decoded = new Cursor(encoded, 'price', options).decode();
+      expect(decoded).toBe('100|prod-01');
+    });
+
+    it('should not expose the cursor value', () => {
+      const encoded = new Cursor('100|prod-01', 'price', options).encode();
+      const [body] = encoded.split('.');
+      expect(Buffer.from(body ?? '', 'base64url').toString('utf8')).not.toContain(
+        'prod-01',
+      );
+    });
+
+    it('should require a secret', () => {
+      expect(() => new Cursor('prod-01', 'id', { encrypt: true })).toThrow(
+        'A cursor secret is required to encrypt cursors',
+      );
+    });
+  });
 });
@@ -22,19 +22,169 @@
  * SOFTWARE.
  */
 import { Buffer } from 'node:buffer';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  timingSafeEqual,
+} from 'node:crypto';
+import {
+  CursorPayload,
+  parseCursorPayload,
+  serializeCursorPayload,
+} from './cursor-payload';
+import { InvalidCursorError } from './pagination.errors';
+
+/**
+ * Options that change how a cursor is encoded.
+ */
+export interface CursorOptions {
+  /**
+   * The secret used to sign cursors with HMAC-SHA256. Cursors that were not
+   * signed with this secret are rejected when decoded.
+   */
+  secret?: string;
+
+  /**
+   * Whether to also encrypt cursors (AES-256-CTR), so that clients cannot
+   * read the sort values they carry. Requires a secret.
+   */
+  encrypt?: boolean;
+
+  /**
+   * Whether to still accept cursors issued before payloads were versioned
+   * (`value|id` strings). Turn it off once clients have moved over to new
+   * cursors, so that any payload that is not a structured one is rejected.
+   * @default true
+   */
+  acceptLegacy?: boolean;
+}
+
+const signatureDelimiter = '.';
+const ivLength = 16;
 
 export class Cursor {
   private cursor: string;
   private columnId: string;
-  constructor(value: string, columnId: string) {
+  private options: CursorOptions;
+  constructor(value: string, columnId: string, options: CursorOptions = {}) {
     this.cursor = value;
     this.columnId = columnId;
+    this.options = options;
+    if (options.encrypt && !options.secret) {
+      throw new Error('A cursor secret is required to encrypt cursors');
+    }
+  }
+
+  /**
+   * Creates a cursor holding a structured payload, which is encoded
+   * losslessly with the type of every value.
+   *
+   * @param payload The sort columns and values of the row the cursor points to
+   * @param options Options that change how the cursor is encoded
+   * @returns The cursor
+   */
+  static fromPayload(payload: CursorPayload, options?: CursorOptions): Cursor {
+    return new Cursor(
+      serializeCursorPayload(payload),
+      payload.columns[0] ?? '',
+      options,
+    );
   }
+
   encode(): string {
-    return Buffer.from(this.cursor).toString('base64');
+    const { secret, encrypt } = this.options;
+    if (!secret) {
+      return Buffer.from(this.cursor).toString('base64');
+    }
+
+    const body = encrypt
+      ? this.encrypt(secret).toString('base64url')
+      : Buffer.from(this.cursor).toString('base64url');
+    return `${body}${signatureDelimiter}${sign(secret, body)}`;
   }
 
   decode(): string {
-    return Buffer.from(this.cursor, 'base64').toString('utf8');
+    const { secret, encrypt } = this.options;
+    if (!secret) {
+      return Buffer.from(this.cursor, 'base64').toString('utf8');
+    }
+
+    const [body, signature, ...rest] = this.cursor.split(signatureDelimiter);
+    if (!body || !signature || rest.length > 0) {
+      throw new InvalidCursorError('Cursor is not signed');
+    }
+    const expected = Buffer.from(sign(secret, body));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new InvalidCursorError('Cursor signature does not match');
+    }
+
+    const data = Buffer.from(body, 'base64url');
+    return encrypt ? this.decrypt(secret, data) : data.toString('utf8');
+  }
+
+  /**
+   * Decodes the structured payload of the cursor. Legacy `value|id` cursors
+   * are accepted unless the `acceptLegacy` option is turned off.
+   *
+   * @param columns The sort columns the cursor is expected to hold values for
+   * @param fingerprint The fingerprint of the query the cursor is used with
+   * @returns The cursor payload
+   */
+  decodePayload(columns: string[], fingerprint?: string): CursorPayload {
+    return parseCursorPayload(
+      this.decode(),
+      columns,
+      fingerprint,
+      this.options.acceptLegacy,
+    );
   }
+
+  /**
+   * The IV is derived from the value itself, so that the same row always
+   * gets the same cursor.
+   */
+  private encrypt(secret: string): Buffer {
+    const iv = hmac(secret, 'iv')
+      .update(this.cursor)
+      .digest()
+      .subarray(0, ivLength);
+    const cipher = createCipheriv(
+      'aes-256-ctr',
+      hmac(secret, 'encryption').digest(),
+      iv,
+    );
+    return Buffer.concat([
+      iv,
+      cipher.update(this.cursor, 'utf8'),
+      cipher.final(),
+    ]);
+  }
+
+  private decrypt(secret: string, data: Buffer): string {
+    if (data.length < ivLength) {
+      throw new InvalidCursorError('Cursor is corrupted');
+    }
+    const decipher = createDecipheriv(
+      'aes-256-ctr',
+      hmac(secret, 'encryption').digest(),
+      data.subarray(0, ivLength),
+    );
+    return Buffer.concat([
+      decipher.update(data.subarray(ivLength)),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
+
+function hmac(secret: string, purpose: string) {
+  return createHmac('sha256', `${purpose}:${secret}`);
+}
+
+function sign(secret: string, body: string): string {
+  return hmac(secret, 'signature').update(body).digest('base64url');
 }
@@ -0,0 +1,164 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { getKeysetCondition } from './keyset-condition';
+import { SortColumn } from './sort-key';
+
+function column(path: string, overrides: Partial<SortColumn> = {}): SortColumn {
+  const [alias = '', propertyPath = ''] = path.split('.');
+  return {
+    alias,
+    propertyPath,
+    path,
+    nodePath: [propertyPath],
+    direction: 'ASC',
+    nulls: 'FIRST',
+    nullable: false,
+    ...overrides,
+  };
+}
+
+describe('getKeysetCondition', () => {
+  describe('non-nullable columns', () => {
+    it('should compare a single column', () => {
+      const condition = getKeysetCondition(
+        [column('p.id')],
+        ['prod-01'],
+        'after',
+        'c',
+      );
+
+      expect(condition.where).toBe('((p.id > :c_0))');
+      expect(condition.parameters).toEqual({ c_0: 'prod-01' });
+    });
+
+    it('should expand compound keys with mixed directions', () => {
+      const condition = getKeysetCondition(
+        [
+          column('p.category'),
+          column('p.price', { direction: 'DESC' }),
+          column('p.id'),
+        ],
+        ['Books', 20, 'prod-17'],
+        'after',
+        'c',
+      );
+
+      expect(condition.where).toBe(
+        '((p.category > :c_0) OR (p.category = :c_0 AND p.price < :c_1) OR ' +
+          '(p.category = :c_0 AND p.price = :c_1 AND p.id > :c_2))',
+      );
+    });
+
+    it('should invert the operators for rows before the value', () => {
+      const condition = getKeysetCondition(
+        [column('p.price', { direction: 'DESC' }), column('p.id')],
+        [20, 'prod-17'],
+        'before',
+        'c',
+      );
+
+      expect(condition.where).toBe(
+        '((p.price > :c_0) OR (p.price = :c_0 AND p.id < :c_1))',
+      );
+    });
+  });
+
+  describe('nullable columns', () => {
+    it('should include nulls after a value when nulls sort last', () => {
+      const condition = getKeysetCondition(
+        [
+          column('p.description', { nullable: true, nulls: 'LAST' }),
+          column('p.id'),
+        ],
+        ['abc', 'prod-01'],
+        'after',
+        'c',
+      );
+
+      expect(condition.where).toBe(
+        '(((p.description > :c_0 OR p.description IS NULL)) OR ' +
+          '(p.description = :c_0 AND p.id > :c_1))',
+      );
+    });
+
+    it('should not include nulls after a value when nulls sort first', () => {
+      const condition = getKeysetCondition(
+        [
+          column('p.description', { nullable: true, nulls: 'FIRST' }),
+          column('p.id'),
+        ],
+        ['abc', 'prod-01'],
+        'after',
+        'c',
+      );
+
+      expect(condition.where).toBe(
+        '((p.description > :c_0) OR (p.description = :c_0 AND p.id > :c_1))',
+      );
+    });
+
+    it('should match every non-null value after a null when nulls sort first', () => {
+      const condition = getKeysetCondition(
+        [
+          column('p.description', { nullable: true, nulls: 'FIRST' }),
+          column('p.id'),
+        ],
+        [null, 'prod-01'],
+        'after',
+        'c',
+      );
+
+      expect(condition.where).toBe(
+        '((p.description IS NOT NULL) OR (p.description IS NULL AND p.id > :c_1))',
+      );
+      expect(condition.parameters).toEqual({ c_1: 'prod-01' });
+    });
+
+    it('should only match other nulls after a null when nulls sort last', () => {
+      const condition = getKeysetCondition(
+        [
+          column('p.description', { nullable: true, nulls: 'LAST' }),
+          column('p.id'),
+        ],
+        [null, 'prod-01'],
+        'after',
+        'c',
+      );
+
+      expect(condition.where).toBe('((p.description IS NULL AND p.id > :c_1))');
+    });
+
+    it('should match nothing when no row can come after the value', () => {
+      const condition = getKeysetCondition(
+        [column('p.description', { nullable: true, nulls: 'LAST' })],
+        [null],
+        'after',
+        'c',
+      );
+
+      expect(condition.where).toBe('1 = 0');
+    });
+  });
+});
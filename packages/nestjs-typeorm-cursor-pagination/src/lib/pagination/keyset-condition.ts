@@ -0,0 +1,132 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ObjectLiteral } from 'typeorm';
+import { SortColumn } from './sort-key';
+
+/**
+ * A WHERE condition and the parameters it binds.
+ */
+export interface KeysetCondition {
+  where: string;
+  parameters: ObjectLiteral;
+}
+
+/**
+ * Builds the keyset predicate that matches every row coming strictly before
+ * or after the given values, in the order defined by the sort columns:
+ * `(a > x) OR (a = x AND b < y) OR (a = x AND b = y AND c > z) ...`
+ *
+ * Null values are placed where the sort column says, so a nullable column
+ * compares with `IS NULL` / `IS NOT NULL` instead of `= NULL` / `> NULL`,
+ * which would never match.
+ *
+ * @param sortColumns The sort columns, in order
+ * @param values The value of every sort column for the reference row
+ * @param position Whether to match the rows before or after the reference row
+ * @param parameterPrefix The prefix of the parameter names, which must be
+ * unique within the query
+ * @returns The keyset condition
+ */
+export function getKeysetCondition(
+  sortColumns: SortColumn[],
+  values: unknown[],
+  position: 'before' | 'after',
+  parameterPrefix: string,
+): KeysetCondition {
+  const parameters: ObjectLiteral = {};
+  const parameterNames = sortColumns.map((_, index) => {
+    const parameterName = `${parameterPrefix}_${index}`;
+    if (!isNull(values[index])) {
+      parameters[parameterName] = values[index];
+    }
+    return parameterName;
+  });
+
+  const conditions: string[] = [];
+  sortColumns.forEach((column, index) => {
+    const comparison = getComparison(
+      column,
+      values[index],
+      parameterNames[index] as string,
+      position,
+    );
+    if (comparison === null) {
+      return;
+    }
+    const equalities = sortColumns
+      .slice(0, index)
+      .map((previous, i) =>
+        getEquality(previous, values[i], parameterNames[i] as string),
+      );
+    conditions.push([...equalities, comparison].join(' AND '));
+  });
+
+  if (conditions.length === 0) {
+    return { where: '1 = 0', parameters };
+  }
+  return {
+    where: `(${conditions.map((condition) => `(${condition})`).join(' OR ')})`,
+    parameters,
+  };
+}
+
+function isNull(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function getEquality(
+  column: SortColumn,
+  value: unknown,
+  parameterName: string,
+): string {
+  return isNull(value)
+    ? `${column.path} IS NULL`
+    : `${column.path} = :${parameterName}`;
+}
+
+/**
+ * Returns the condition matching the rows strictly before or after the value
+ * on a single column, or null when no row can be.
+ */
+function getComparison(
+  column: SortColumn,
+  value: unknown,
+  parameterName: string,
+  position: 'before' | 'after',
+): string | null {
+  // Whether null values sit on the side of the value we are looking at
+  const nullsInRange = (column.nulls === 'LAST') === (position === 'after');
+  if (isNull(value)) {
+    return nullsInRange ? null : `${column.path} IS NOT NULL`;
+  }
+
+  const operator =
+    (column.direction === 'ASC') === (position === 'after') ? '>' : '<';
+  const comparison = `${column.path} ${operator} :${parameterName}`;
+  if (column.nullable && nullsInRange) {
+    return `(${comparison} OR ${column.path} IS NULL)`;
+  }
+  return comparison;
+}
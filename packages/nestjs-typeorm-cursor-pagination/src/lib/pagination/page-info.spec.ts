@@ -65,6 +65,34 @@ describe('PageInfo', () => {
       expect(pageInfo.countAfter).toBe(0);
       expect(pageInfo.totalCount).toBe(0);
     });
+
+    it('should default the page position to null', () => {
+      const pageInfo = new PageInfo({
+        hasPreviousPage: false,
+        hasNextPage: true,
+        countBefore: 0,
+        countAfter: 10,
+        totalCount: 20,
+      });
+
+      expect(pageInfo.currentPage).toBeNull();
+      expect(pageInfo.pageCount).toBeNull();
+    });
+
+    it('should keep the page position in page mode', () => {
+      const pageInfo = new PageInfo({
+        hasPreviousPage: true,
+        hasNextPage: true,
+        countBefore: 10,
+        countAfter: 10,
+        totalCount: 30,
+        currentPage: 2,
+        pageCount: 3,
+      });
+
+      expect(pageInfo.currentPage).toBe(2);
+      expect(pageInfo.pageCount).toBe(3);
+    });
   });
 
   describe('first page scenarios', () => {
@@ -181,9 +209,9 @@ describe('PageInfo', () => {
       });
 
       expect(pageInfo.totalCount).toBe(50);
-      expect(pageInfo.countBefore + pageInfo.countAfter).toBeLessThan(
-        pageInfo.totalCount
-      );
+      expect(
+        (pageInfo.countBefore ?? 0) + (pageInfo.countAfter ?? 0)
+      ).toBeLessThan(pageInfo.totalCount ?? 0);
     });
 
     it('should handle large count values', () => {
@@ -36,6 +36,9 @@ export class PageInfo {
     countBefore,
     countAfter,
     totalCount,
+    currentPage = null,
+    pageCount = null,
+    hasNewerRecords = null,
   }: PageInfo) {
     this.startCursor = startCursor;
     this.endCursor = endCursor;
@@ -44,6 +47,9 @@ export class PageInfo {
     this.countBefore = countBefore;
     this.countAfter = countAfter;
     this.totalCount = totalCount;
+    this.currentPage = currentPage;
+    this.pageCount = pageCount;
+    this.hasNewerRecords = hasNewerRecords;
   }
 
   @Field({ nullable: true })
@@ -63,17 +69,38 @@ export class PageInfo {
   hasNextPage!: boolean;
 
   @Field(() => Int, {
-    description: `The number of records before this page`,
+    nullable: true,
+    description: `The number of records before this page, or null when it was not counted`,
   })
-  countBefore!: number;
+  countBefore!: number | null;
 
   @Field(() => Int, {
-    description: `The number of records after this page`,
+    nullable: true,
+    description: `The number of records after this page, or null when it was not counted`,
   })
-  countAfter!: number;
+  countAfter!: number | null;
 
   @Field(() => Int, {
-    description: `The total number of records`,
+    nullable: true,
+    description: `The total number of records, or null when it was not counted`,
   })
-  totalCount!: number;
+  totalCount!: number | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: `The 1-based number of this page, or null when paginating by cursor`,
+  })
+  currentPage?: number | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: `The number of pages, or null when paginating by cursor or when it was not counted`,
+  })
+  pageCount?: number | null;
+
+  @Field(() => Boolean, {
+    nullable: true,
+    description: `Whether records newer than the snapshot exist, or null when not paginating a snapshot`,
+  })
+  hasNewerRecords?: boolean | null;
 }
@@ -0,0 +1,196 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DataSource, Repository, SelectQueryBuilder } from 'typeorm';
+import { paginateAll } from './paginate-all';
+import {
+  TestProduct,
+  createTestDatabase,
+  seedTestData,
+  closeTestDatabase,
+} from '../test-utils/test-database.setup';
+import { SortDirectionEnum } from '../query-builder/order-by.input';
+
+describe('paginateAll - Integration Tests', () => {
+  let dataSource: DataSource;
+  let productRepo: Repository<TestProduct>;
+
+  const allIds = Array.from(
+    { length: 40 },
+    (_, i) => `prod-${(i + 1).toString().padStart(2, '0')}`,
+  );
+
+  beforeAll(async () => {
+    dataSource = await createTestDatabase();
+    await seedTestData(dataSource);
+    productRepo = dataSource.getRepository(TestProduct);
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase(dataSource);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function collect<V>(iterator: AsyncIterable<V>): Promise<V[]> {
+    const values: V[] = [];
+    for await (const value of iterator) {
+      values.push(value);
+    }
+    return values;
+  }
+
+  it('should yield every page of a filtered query without counting', async () => {
+    const getCount = jest.spyOn(SelectQueryBuilder.prototype, 'getCount');
+    const query = productRepo
+      .createQueryBuilder('product')
+      .where('product.category = :category', { category: 'Electronics' });
+
+    const pages = await collect(
+      paginateAll(query, {
+        pageSize: 6,
+        sortKeys: [
+          { column: 'product.price', direction: SortDirectionEnum.DESC },
+        ],
+      }),
+    );
+
+    expect(pages.map((page) => page.edges.length)).toEqual([6, 6, 3]);
+    expect(
+      pages.flatMap((page) => page.edges.map((edge) => edge.node.id)),
+    ).toEqual(allIds.slice(0, 15).reverse());
+    expect(pages.map((page) => page.pageInfo.totalCount)).toEqual([
+      null,
+      null,
+      null,
+    ]);
+    expect(getCount).not.toHaveBeenCalled();
+    expect(query.expressionMap.orderBys).toEqual({});
+  });
+
+  it('should yield each node', async () => {
+    const nodes = await collect(
+      paginateAll(productRepo.createQueryBuilder('product'), {
+        each: 'node',
+        pageSize: 7,
+      }),
+    );
+
+    expect(nodes.map((node) => node.id)).toEqual(allIds);
+  });
+
+  it('should yield nothing for an empty result', async () => {
+    const query = productRepo
+      .createQueryBuilder('product')
+      .where('product.price < 0');
+
+    await expect(collect(paginateAll(query))).resolves.toEqual([]);
+  });
+
+  it('should resume from the latest checkpoint without skipping or repeating nodes', async () => {
+    const query = productRepo.createQueryBuilder('product');
+    const processed: string[] = [];
+    let checkpoint: string | undefined;
+    const onCheckpoint = (cursor: string) => {
+      checkpoint = cursor;
+    };
+
+    for await (const node of paginateAll(query, {
+      each: 'node',
+      pageSize: 4,
+      onCheckpoint,
+    })) {
+      if (processed.length === 10) {
+        break;
+      }
+      processed.push(node.id);
+    }
+
+    await productRepo.delete({ id: 'prod-03' });
+    try {
+      for await (const node of paginateAll(query, {
+        each: 'node',
+        pageSize: 4,
+        after: checkpoint,
+        onCheckpoint,
+      })) {
+        processed.push(node.id);
+      }
+    } finally {
+      await productRepo.save(
+        productRepo.create({
+          id: 'prod-03',
+          name: 'Laptop 3',
+          price: 800,
+          category: 'Electronics',
+          description: 'High-performance laptop model 3',
+          createdAt: new Date('2024-01-04T00:00:00Z'),
+          stock: 15,
+          categoryId: 'cat-1',
+        }),
+      );
+    }
+
+    expect(processed).toEqual(allIds);
+  });
+
+  it('should report a checkpoint after each page', async () => {
+    const checkpoints: string[] = [];
+    const pages = await collect(
+      paginateAll(productRepo.createQueryBuilder('product'), {
+        pageSize: 15,
+        onCheckpoint: async (cursor) => {
+          checkpoints.push(cursor);
+        },
+      }),
+    );
+
+    expect(checkpoints).toEqual(pages.map((page) => page.pageInfo.endCursor));
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const getMany = jest.spyOn(SelectQueryBuilder.prototype, 'getMany');
+    const pages = paginateAll(productRepo.createQueryBuilder('product'), {
+      pageSize: 10,
+      signal: controller.signal,
+    });
+
+    await pages.next();
+    controller.abort();
+
+    await expect(pages.next()).rejects.toThrow('This operation was aborted');
+    expect(getMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a page size below one', async () => {
+    await expect(
+      collect(
+        paginateAll(productRepo.createQueryBuilder('product'), { pageSize: 0 }),
+      ),
+    ).rejects.toThrow('"pageSize" must be a positive integer');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { SelectQueryBuilder } from 'typeorm';
+import { paginate } from './paginate';
+import { IPaginatedType } from './paginated';
+import { PaginateAllOptions } from './pagination.options';
+
+/**
+ * Walks every page of a query in keyset order, for batch jobs such as exports
+ * and backfills. Pages are fetched one at a time, once the previous one has
+ * been processed, and no counts are run. Rows inserted or deleted during the
+ * walk do not shift the pages, as each page starts after the last node of the
+ * previous one.
+ *
+ * @param query The query to walk, which is not modified
+ * @param options Options that change the sort order, the page size and
+ * whether pages or nodes are yielded, and that resume or stop the walk
+ * @returns An async generator of the pages, or of their nodes
+ */
+export function paginateAll<T extends object>(
+  query: SelectQueryBuilder<T>,
+  options: PaginateAllOptions & { each: 'node' },
+): AsyncGenerator<T, void, undefined>;
+export function paginateAll<T extends object>(
+  query: SelectQueryBuilder<T>,
+  options?: PaginateAllOptions & { each?: 'page' },
+): AsyncGenerator<IPaginatedType<T>, void, undefined>;
+export async function* paginateAll<T extends object>(
+  query: SelectQueryBuilder<T>,
+  options: PaginateAllOptions = {},
+): AsyncGenerator<T | IPaginatedType<T>, void, undefined> {
+  const {
+    sortKeys,
+    pageSize,
+    after,
+    each = 'page',
+    onCheckpoint,
+    signal,
+    ...paginateOptions
+  } = options;
+
+  if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1)) {
+    throw new Error('"pageSize" must be a positive integer');
+  }
+
+  let cursor = after;
+  for (;;) {
+    signal?.throwIfAborted();
+    const page = await paginate(
+      query.clone(),
+      { first: pageSize, after: cursor },
+      sortKeys,
+      { ...paginateOptions, countStrategy: 'probe' },
+    );
+    if (page.edges.length === 0) {
+      return;
+    }
+
+    if (each === 'node') {
+      for (const edge of page.edges) {
+        signal?.throwIfAborted();
+        yield edge.node;
+        await onCheckpoint?.(edge.cursor);
+      }
+    } else {
+      yield page;
+      await onCheckpoint?.(page.pageInfo.endCursor as string);
+    }
+
+    if (!page.pageInfo.hasNextPage) {
+      return;
+    }
+    cursor = page.pageInfo.endCursor;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DataSource, In, Repository } from 'typeorm';
+import { paginate } from './paginate';
+import { paginateRepository } from './paginate-repository';
+import {
+  TestProduct,
+  createTestDatabase,
+  seedTestData,
+  closeTestDatabase,
+} from '../test-utils/test-database.setup';
+import { SortDirectionEnum } from '../query-builder/order-by.input';
+
+describe('paginateRepository - Integration Tests', () => {
+  let dataSource: DataSource;
+  let productRepo: Repository<TestProduct>;
+
+  beforeAll(async () => {
+    dataSource = await createTestDatabase();
+    await seedTestData(dataSource);
+    productRepo = dataSource.getRepository(TestProduct);
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase(dataSource);
+  });
+
+  it('should page the entities matching the where clause', async () => {
+    const findOptions = { where: { category: 'Books' } };
+
+    const firstPage = await paginateRepository(
+      productRepo,
+      findOptions,
+      { first: 10 },
+      'id',
+    );
+    const secondPage = await paginateRepository(
+      productRepo,
+      findOptions,
+      { first: 10, after: firstPage.pageInfo.endCursor },
+      'id',
+    );
+
+    expect(firstPage.edges.map((edge) => edge.node.id)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `prod-${16 + i}`),
+    );
+    expect(secondPage.edges.map((edge) => edge.node.id)).toEqual([
+      'prod-26',
+      'prod-27',
+      'prod-28',
+      'prod-29',
+      'prod-30',
+    ]);
+    expect(secondPage.pageInfo).toMatchObject({
+      totalCount: 15,
+      hasNextPage: false,
+      hasPreviousPage: true,
+    });
+  });
+
+  it('should load relations and filter on them with a nested where', async () => {
+    const { edges, pageInfo } = await paginateRepository(
+      productRepo,
+      {
+        where: {
+          categoryRelation: { slug: 'clothing' },
+          stock: In([3, 6, 9, 12]),
+        },
+        relations: { categoryRelation: true, reviews: true },
+      },
+      { first: 10 },
+    );
+
+    expect(edges.map((edge) => edge.node.id)).toEqual([
+      'prod-31',
+      'prod-32',
+      'prod-33',
+      'prod-34',
+    ]);
+    expect(edges[0]?.node.categoryRelation?.name).toBe('Clothing');
+    expect(edges[0]?.node.reviews).toEqual([]);
+    expect(pageInfo.totalCount).toBe(4);
+  });
+
+  it('should sort by the order of the find options', async () => {
+    const findOptions = {
+      where: { category: 'Electronics' },
+      order: { stock: 'DESC' as const },
+    };
+
+    const firstPage = await paginateRepository(productRepo, findOptions, {
+      first: 4,
+    });
+    const secondPage = await paginateRepository(productRepo, findOptions, {
+      first: 4,
+      after: firstPage.pageInfo.endCursor,
+    });
+
+    const expected = await paginate(
+      productRepo
+        .createQueryBuilder('product')
+        .where('product.category = :category', { category: 'Electronics' }),
+      { first: 8 },
+      [{ column: 'product.stock', direction: SortDirectionEnum.DESC }],
+    );
+    expect(
+      [...firstPage.edges, ...secondPage.edges].map((edge) => edge.node.id),
+    ).toEqual(expected.edges.map((edge) => edge.node.id));
+  });
+
+  it('should reject skip and take', async () => {
+    await expect(
+      paginateRepository(productRepo, { take: 10 }, { first: 5 }),
+    ).rejects.toThrow(
+      'Cannot use "skip" or "take" with paginateRepository; pages are sized by the pagination arguments',
+    );
+  });
+
+  it('should reject both an order and sort keys', async () => {
+    await expect(
+      paginateRepository(
+        productRepo,
+        { order: { price: 'ASC' } },
+        { first: 5 },
+        'name',
+      ),
+    ).rejects.toThrow('Cannot use both "order" and sort keys');
+  });
+
+  it('should reject an order on a relation', async () => {
+    await expect(
+      paginateRepository(
+        productRepo,
+        {
+          relations: { categoryRelation: true },
+          order: { categoryRelation: { name: 'ASC' } },
+        },
+        { first: 5 },
+      ),
+    ).rejects.toThrow(
+      'Cannot convert the order of "categoryRelation" to a sort key; pass sort keys instead',
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+  FindManyOptions,
+  FindOptionsOrder,
+  FindOptionsOrderValue,
+  FindOptionsUtils,
+  Repository,
+} from 'typeorm';
+import {
+  SortDirectionEnum,
+  SortNullsEnum,
+} from '../query-builder/order-by.input';
+import { paginate } from './paginate';
+import { IPaginatedType } from './paginated';
+import { PaginationArgs } from './pagination.args';
+import { PaginateOptions } from './pagination.options';
+import { SortKey } from './sort-key';
+
+/**
+ * Paginates the entities of a repository that match TypeORM find options, as
+ * `repository.find` would load them.
+ *
+ * @param repository The repository to paginate
+ * @param findOptions The find options, including `where` and `relations`.
+ * Pages are sized by the pagination arguments, so `skip` and `take` are not
+ * accepted
+ * @param paginationArgs The pagination arguments
+ * @param sortKeys A single column name, or an ordered list of sort keys. The
+ * `order` of the find options is used when they are omitted
+ * @param options Options that change how rows are ordered, and how cursors
+ * are built and read
+ * @returns A paginated type
+ */
+export async function paginateRepository<T extends object>(
+  repository: Repository<T>,
+  findOptions: FindManyOptions<T>,
+  paginationArgs: PaginationArgs,
+  sortKeys?: string | SortKey[],
+  options: PaginateOptions = {},
+): Promise<IPaginatedType<T>> {
+  const { order, skip, take, ...queryOptions } = findOptions;
+  if (skip !== undefined || take !== undefined) {
+    throw new Error(
+      'Cannot use "skip" or "take" with paginateRepository; pages are sized by the pagination arguments',
+    );
+  }
+  if (order && sortKeys) {
+    throw new Error('Cannot use both "order" and sort keys');
+  }
+
+  const query = repository
+    .createQueryBuilder(
+      FindOptionsUtils.extractFindManyOptionsAlias(findOptions) ??
+        repository.metadata.name,
+    )
+    .setFindOptions(queryOptions);
+
+  return paginate(
+    query,
+    paginationArgs,
+    sortKeys ?? (order ? getOrderSortKeys(order) : undefined),
+    options,
+  );
+}
+
+/**
+ * Converts the `order` of find options to sort keys. Only columns of the
+ * repository's own entity can be converted, not the columns of relations.
+ */
+function getOrderSortKeys<T>(order: FindOptionsOrder<T>): SortKey[] {
+  return Object.entries(order).flatMap(([column, value]): SortKey[] => {
+    if (value === undefined) {
+      return [];
+    }
+    if (!isOrderValue(value)) {
+      throw new Error(
+        `Cannot convert the order of "${column}" to a sort key; pass sort keys instead`,
+      );
+    }
+
+    const { direction, nulls } =
+      typeof value === 'object'
+        ? value
+        : { direction: value, nulls: undefined };
+    const sortKey: SortKey = {
+      column,
+      direction:
+        String(direction).toUpperCase() === 'DESC' || direction === -1
+          ? SortDirectionEnum.DESC
+          : SortDirectionEnum.ASC,
+    };
+    if (nulls) {
+      sortKey.nulls =
+        nulls.toUpperCase() === 'FIRST'
+          ? SortNullsEnum.FIRST
+          : SortNullsEnum.LAST;
+    }
+    return [sortKey];
+  });
+}
+
+function isOrderValue(value: unknown): value is FindOptionsOrderValue {
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).every(
+      (key) => key === 'direction' || key === 'nulls',
+    );
+  }
+  return ['string', 'number'].includes(typeof value);
+}
@@ -22,16 +22,33 @@
  * SOFTWARE.
  */
 
-import { DataSource, Repository } from 'typeorm';
-import { paginate } from './paginate';
+import { GraphQLResolveInfo, parse, FieldNode, OperationDefinitionNode } from 'graphql';
+import { DataSource, In, Repository, SelectQueryBuilder } from 'typeorm';
+import { Cursor } from './cursor';
+import { getCursorForId, paginate } from './paginate';
 import { PaginationArgs } from './pagination.args';
 import {
+  TestInventoryItem,
+  TestLegacyProduct,
   TestProduct,
+  TestReview,
   createTestDatabase,
   seedTestData,
   closeTestDatabase,
 } from '../test-utils/test-database.setup';
 import { IPaginatedType } from './paginated';
+import { SortKey } from './sort-key';
+import {
+  CursorMismatchError,
+  InvalidCursorError,
+  NodeNotFoundError,
+  PageSizeExceededError,
+} from './pagination.errors';
+import { configurePagination } from './pagination.options';
+import {
+  SortDirectionEnum,
+  SortNullsEnum,
+} from '../query-builder/order-by.input';
 
 describe('paginate - Integration Tests', () => {
   let dataSource: DataSource;
@@ -250,84 +267,1827 @@ describe('paginate - Integration Tests', () => {
     });
   });
 
-  describe('edge cases', () => {
-    it('should handle empty results', async () => {
-      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
-      queryBuilder.where('TestProduct.price > :price', { price: 999999 });
+  describe('compound sort keys', () => {
+    const sortKeys: SortKey[] = [
+      { column: 'TestProduct.category', direction: SortDirectionEnum.ASC },
+      { column: 'TestProduct.stock', direction: SortDirectionEnum.DESC },
+    ];
+
+    async function getExpectedIds(): Promise<string[]> {
+      const products = await productRepo.find();
+      return products
+        .sort(
+          (a, b) =>
+            a.category.localeCompare(b.category) ||
+            b.stock - a.stock ||
+            a.id.localeCompare(b.id),
+        )
+        .map((p) => p.id);
+    }
+
+    it('should order by every sort key with its own direction', async () => {
+      const qb = productRepo.createQueryBuilder('TestProduct');
+      const result = await paginate(qb, { first: 40 }, sortKeys);
 
-      const result = await paginate(queryBuilder, { first: 10 }, 'TestProduct.id');
+      expect(result.edges.map((e) => e.node.id)).toEqual(
+        await getExpectedIds(),
+      );
+    });
 
-      expect(result.edges).toHaveLength(0);
-      expect(result.pageInfo.hasNextPage).toBe(false);
-      expect(result.pageInfo.hasPreviousPage).toBe(false);
-      expect(result.pageInfo.totalCount).toBe(0);
-      expect(result.pageInfo.startCursor).toBeUndefined();
-      expect(result.pageInfo.endCursor).toBeUndefined();
+    it('should page forward through every row without gaps or duplicates', async () => {
+      const ids: string[] = [];
+      let after: string | undefined = undefined;
+      let hasNextPage = true;
+
+      while (hasNextPage) {
+        const qb = productRepo.createQueryBuilder('TestProduct');
+        const page: IPaginatedType<TestProduct> = await paginate(
+          qb,
+          { first: 7, after },
+          sortKeys,
+        );
+        expect(page.pageInfo.countBefore).toBe(ids.length);
+        expect(page.pageInfo.totalCount).toBe(40);
+        ids.push(...page.edges.map((e) => e.node.id));
+        after = page.pageInfo.endCursor;
+        hasNextPage = page.pageInfo.hasNextPage;
+      }
+
+      expect(ids).toEqual(await getExpectedIds());
     });
 
-    it('should handle single result', async () => {
-      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
-      queryBuilder.where('TestProduct.id = :id', { id: 'prod-01' });
+    it('should page backward through every row without gaps or duplicates', async () => {
+      const ids: string[] = [];
+      let before: string | undefined = undefined;
+      let hasPreviousPage = true;
 
-      const result = await paginate(queryBuilder, { first: 10 }, 'TestProduct.id');
+      while (hasPreviousPage) {
+        const qb = productRepo.createQueryBuilder('TestProduct');
+        const page: IPaginatedType<TestProduct> = await paginate(
+          qb,
+          { last: 7, before },
+          sortKeys,
+        );
+        expect(page.pageInfo.countAfter).toBe(ids.length);
+        ids.unshift(...page.edges.map((e) => e.node.id));
+        before = page.pageInfo.startCursor;
+        hasPreviousPage = page.pageInfo.hasPreviousPage;
+      }
 
-      expect(result.edges).toHaveLength(1);
-      expect(result.pageInfo.hasNextPage).toBe(false);
-      expect(result.pageInfo.hasPreviousPage).toBe(false);
-      expect(result.pageInfo.totalCount).toBe(1);
+      expect(ids).toEqual(await getExpectedIds());
     });
 
-    it('should handle requesting more items than available', async () => {
-      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
-      queryBuilder.where('TestProduct.category = :cat', { cat: 'Books' });
+    it('should reverse every sort key with the reverse flag', async () => {
+      const qb = productRepo.createQueryBuilder('TestProduct');
+      const result = await paginate(qb, { first: 40, reverse: true }, sortKeys);
 
-      const result = await paginate(queryBuilder, { first: 100 }, 'TestProduct.id');
+      expect(result.edges.map((e) => e.node.id)).toEqual(
+        (await getExpectedIds()).reverse(),
+      );
+    });
+  });
 
-      expect(result.edges.length).toBeLessThan(100);
-      expect(result.pageInfo.hasNextPage).toBe(false);
+  describe('nullable sort columns', () => {
+    const nullIds = ['prod-03', 'prod-17', 'prod-18', 'prod-33'];
+    let originals: TestProduct[] = [];
+
+    beforeAll(async () => {
+      originals = await productRepo.findBy({ id: In(nullIds) });
+      await productRepo.update(nullIds, {
+        description: null as unknown as string,
+      });
+    });
+
+    afterAll(async () => {
+      await productRepo.save(originals);
+    });
+
+    async function getExpectedIds(
+      direction: SortDirectionEnum,
+      nulls: SortNullsEnum,
+    ): Promise<string[]> {
+      const products = await productRepo.find();
+      const sign = direction === SortDirectionEnum.ASC ? 1 : -1;
+      return products
+        .sort((a, b) => {
+          if (a.description === null || b.description === null) {
+            if (a.description === b.description) {
+              return sign * a.id.localeCompare(b.id);
+            }
+            return (a.description === null) === (nulls === SortNullsEnum.FIRST)
+              ? -1
+              : 1;
+          }
+          return (
+            sign * (a.description ?? '').localeCompare(b.description ?? '') ||
+            sign * a.id.localeCompare(b.id)
+          );
+        })
+        .map((p) => p.id);
+    }
+
+    async function walk(
+      sortKeys: SortKey[],
+      backward: boolean,
+    ): Promise<{ ids: string[]; counts: (number | null)[] }> {
+      const ids: string[] = [];
+      const counts: (number | null)[] = [];
+      let cursor: string | undefined = undefined;
+      let hasMore = true;
+
+      while (hasMore) {
+        const qb = productRepo.createQueryBuilder('TestProduct');
+        const page: IPaginatedType<TestProduct> = await paginate(
+          qb,
+          backward ? { last: 3, before: cursor } : { first: 3, after: cursor },
+          sortKeys,
+        );
+        const pageIds = page.edges.map((e) => e.node.id);
+        if (backward) {
+          ids.unshift(...pageIds);
+          counts.push(page.pageInfo.countAfter);
+          cursor = page.pageInfo.startCursor;
+          hasMore = page.pageInfo.hasPreviousPage;
+        } else {
+          ids.push(...pageIds);
+          counts.push(page.pageInfo.countBefore);
+          cursor = page.pageInfo.endCursor;
+          hasMore = page.pageInfo.hasNextPage;
+        }
+      }
+      return { ids, counts };
+    }
+
+    const cases = [
+      [SortDirectionEnum.ASC, SortNullsEnum.FIRST],
+      [SortDirectionEnum.ASC, SortNullsEnum.LAST],
+      [SortDirectionEnum.DESC, SortNullsEnum.FIRST],
+      [SortDirectionEnum.DESC, SortNullsEnum.LAST],
+    ] as const;
+
+    it.each(cases)(
+      'should page forward through %s NULLS %s without skipping rows',
+      async (direction, nulls) => {
+        const { ids, counts } = await walk(
+          [{ column: 'TestProduct.description', direction, nulls }],
+          false,
+        );
+
+        expect(ids).toEqual(await getExpectedIds(direction, nulls));
+        expect(counts).toEqual(counts.map((_, i) => i * 3));
+      },
+    );
+
+    it.each(cases)(
+      'should page backward through %s NULLS %s without skipping rows',
+      async (direction, nulls) => {
+        const { ids, counts } = await walk(
+          [{ column: 'TestProduct.description', direction, nulls }],
+          true,
+        );
+
+        expect(ids).toEqual(await getExpectedIds(direction, nulls));
+        expect(counts).toEqual(counts.map((_, i) => i * 3));
+      },
+    );
+
+    it('should use the database default when nulls is not set', async () => {
+      const { ids } = await walk(
+        [{ column: 'TestProduct.description' }],
+        false,
+      );
+
+      // SQLite places nulls first in ascending order
+      expect(ids).toEqual(
+        await getExpectedIds(SortDirectionEnum.ASC, SortNullsEnum.FIRST),
+      );
     });
   });
 
-  describe('cursor encoding/decoding', () => {
-    it('should properly encode and decode cursors', async () => {
-      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
-      const firstPage = await paginate(queryBuilder, { first: 5 }, 'TestProduct.id');
+  describe('related-entity sort columns', () => {
+    const uncategorizedIds = ['prod-05', 'prod-22'];
+    let originals: TestProduct[] = [];
 
-      const cursor = firstPage.pageInfo.endCursor;
-      expect(cursor).toBeDefined();
-      expect(typeof cursor).toBe('string');
+    beforeAll(async () => {
+      originals = await productRepo.findBy({ id: In(uncategorizedIds) });
+      await productRepo.update(uncategorizedIds, { categoryId: null as unknown as string });
+    });
 
-      // Use cursor for next page
-      const nextQb = productRepo.createQueryBuilder('TestProduct');
-      const nextPage = await paginate(
-        nextQb,
-        { first: 5, after: cursor },
-        'TestProduct.id'
+    afterAll(async () => {
+      await productRepo.save(originals);
+    });
+
+    const withCategory = () =>
+      productRepo
+        .createQueryBuilder('product')
+        .leftJoinAndSelect('product.categoryRelation', 'category');
+
+    async function getExpectedIds(direction: SortDirectionEnum): Promise<string[]> {
+      const products = await productRepo.find({ relations: { categoryRelation: true } });
+      const sign = direction === SortDirectionEnum.ASC ? 1 : -1;
+      // SQLite sorts NULL first in ascending order
+      const name = (p: TestProduct) => p.categoryRelation?.name ?? '';
+      return products
+        .sort((a, b) => sign * name(a).localeCompare(name(b)) || sign * a.id.localeCompare(b.id))
+        .map((p) => p.id);
+    }
+
+    it.each([SortDirectionEnum.ASC, SortDirectionEnum.DESC])(
+      'should page forward by a joined column (%s)',
+      async (direction) => {
+        const sortKeys: SortKey[] = [{ column: 'category.name', direction }];
+        const ids: string[] = [];
+        let after: string | undefined;
+        let hasNextPage = true;
+
+        while (hasNextPage) {
+          const page = await paginate(withCategory(), { first: 7, after }, sortKeys);
+          ids.push(...page.edges.map((e) => e.node.id));
+          after = page.pageInfo.endCursor;
+          hasNextPage = page.pageInfo.hasNextPage;
+        }
+
+        expect(ids).toEqual(await getExpectedIds(direction));
+      }
+    );
+
+    it('should page backward by a joined column', async () => {
+      const sortKeys: SortKey[] = [{ column: 'category.name' }];
+      const ids: string[] = [];
+      let before: string | undefined;
+      let hasPreviousPage = true;
+
+      while (hasPreviousPage) {
+        const page = await paginate(withCategory(), { last: 7, before }, sortKeys);
+        ids.unshift(...page.edges.map((e) => e.node.id));
+        before = page.pageInfo.startCursor;
+        hasPreviousPage = page.pageInfo.hasPreviousPage;
+      }
+
+      expect(ids).toEqual(await getExpectedIds(SortDirectionEnum.ASC));
+    });
+
+    it('should read the sort value from the related entity', async () => {
+      const page = await paginate(
+        withCategory().where('product.categoryId IS NOT NULL'),
+        { first: 1 },
+        [{ column: 'category.name' }]
       );
+      const cursor = new Cursor(page.pageInfo.endCursor ?? '', 'category.name');
 
-      expect(nextPage.edges).toHaveLength(5);
+      expect(
+        cursor.decodePayload(['category.name', 'product.id']).values
+      ).toEqual(['Books', page.edges[0].node.id]);
     });
 
-    it('should handle cursors with special characters in values', async () => {
-      // Create a product with special characters
-      await productRepo.save({
-        id: 'special-chars',
-        name: 'Product @#$%^&*()',
-        price: 100,
-        category: 'Test',
-        description: 'Special chars: <>&"\'',
-        createdAt: new Date(),
-        stock: 5,
+    it('should count around pages sorted by a joined column', async () => {
+      const firstPage = await paginate(withCategory(), { first: 10 }, [
+        { column: 'category.name' },
+      ]);
+      const secondPage = await paginate(
+        withCategory(),
+        { first: 10, after: firstPage.pageInfo.endCursor },
+        [{ column: 'category.name' }]
+      );
+
+      expect(secondPage.pageInfo.countBefore).toBe(10);
+      expect(secondPage.pageInfo.countAfter).toBe(20);
+      expect(secondPage.pageInfo.totalCount).toBe(40);
+    });
+
+    it('should reject a joined column that is not selected', async () => {
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('product').leftJoin('product.categoryRelation', 'category'),
+          { first: 10 },
+          [{ column: 'category.name' }]
+        )
+      ).rejects.toThrow(
+        'Cannot sort by "category.name": "category" must be selected onto the paginated entity'
+      );
+    });
+  });
+
+  describe('sort expressions', () => {
+    const reviewCounts: Record<string, number> = {
+      'prod-02': 3,
+      'prod-07': 1,
+      'prod-11': 5,
+      'prod-19': 3,
+      'prod-31': 2,
+    };
+
+    beforeAll(async () => {
+      const reviews = Object.entries(reviewCounts).flatMap(([productId, count]) =>
+        Array.from({ length: count }, (_, i) => ({
+          id: `${productId}-review-${i}`,
+          productId,
+          rating: i + 1,
+        }))
+      );
+      await dataSource.getRepository(TestReview).save(reviews);
+    });
+
+    afterAll(async () => {
+      await dataSource.getRepository(TestReview).clear();
+    });
+
+    async function walk(
+      createQuery: () => SelectQueryBuilder<TestProduct>,
+      sortKeys: SortKey[],
+      pageSize: number
+    ): Promise<IPaginatedType<TestProduct>['edges']> {
+      const edges: IPaginatedType<TestProduct>['edges'] = [];
+      let after: string | undefined;
+      let hasNextPage = true;
+      while (hasNextPage) {
+        const page = await paginate(createQuery(), { first: pageSize, after }, sortKeys);
+        edges.push(...page.edges);
+        after = page.pageInfo.endCursor;
+        hasNextPage = page.pageInfo.hasNextPage;
+      }
+      return edges;
+    }
+
+    async function getExpectedIds(
+      value: (product: TestProduct) => number,
+      sign: 1 | -1
+    ): Promise<string[]> {
+      const products = await productRepo.find();
+      return products
+        .sort((a, b) => sign * (value(a) - value(b)) || sign * a.id.localeCompare(b.id))
+        .map((p) => p.id);
+    }
+
+    it('should page by a computed expression', async () => {
+      const edges = await walk(
+        () => productRepo.createQueryBuilder('product'),
+        [
+          {
+            column: 'inventoryValue',
+            expression: 'product.price * product.stock',
+            direction: SortDirectionEnum.DESC,
+          },
+        ],
+        7
+      );
+
+      expect(edges.map((e) => e.node.id)).toEqual(
+        await getExpectedIds((p) => p.price * p.stock, -1)
+      );
+      expect(edges[0].node).toBeInstanceOf(TestProduct);
+      expect(edges[0].sortValues).toEqual({
+        inventoryValue: edges[0].node.price * edges[0].node.stock,
+      });
+    });
+
+    it('should page backward by an addSelect alias', async () => {
+      const createQuery = () =>
+        productRepo
+          .createQueryBuilder('product')
+          .addSelect('product.price * product.stock', 'inventoryValue');
+      const sortKeys: SortKey[] = [{ column: 'inventoryValue' }];
+      const ids: string[] = [];
+      let before: string | undefined;
+      let hasPreviousPage = true;
+
+      while (hasPreviousPage) {
+        const page = await paginate(createQuery(), { last: 9, before }, sortKeys);
+        ids.unshift(...page.edges.map((e) => e.node.id));
+        before = page.pageInfo.startCursor;
+        hasPreviousPage = page.pageInfo.hasPreviousPage;
+      }
+
+      expect(ids).toEqual(await getExpectedIds((p) => p.price * p.stock, 1));
+    });
+
+    it('should page by an aggregate with HAVING', async () => {
+      const createQuery = () =>
+        productRepo
+          .createQueryBuilder('product')
+          .leftJoin('product.reviews', 'review')
+          .addSelect('COUNT(review.id)', 'reviewCount')
+          .groupBy('product.id');
+      const sortKeys: SortKey[] = [
+        { column: 'reviewCount', direction: SortDirectionEnum.DESC },
+      ];
+
+      const edges = await walk(createQuery, sortKeys, 4);
+
+      expect(edges.map((e) => e.node.id)).toEqual(
+        await getExpectedIds((p) => reviewCounts[p.id] ?? 0, -1)
+      );
+      expect(edges.slice(0, 3).map((e) => e.sortValues?.['reviewCount'])).toEqual([5, 3, 3]);
+    });
+
+    it('should count around pages sorted by an aggregate', async () => {
+      const createQuery = () =>
+        productRepo
+          .createQueryBuilder('product')
+          .leftJoin('product.reviews', 'review')
+          .addSelect('COUNT(review.id)', 'reviewCount')
+          .groupBy('product.id')
+          .where('product.category = :category', { category: 'Electronics' });
+      const sortKeys: SortKey[] = [
+        { column: 'reviewCount', direction: SortDirectionEnum.DESC },
+      ];
+
+      const firstPage = await paginate(createQuery(), { first: 4 }, sortKeys);
+      const secondPage = await paginate(
+        createQuery(),
+        { first: 4, after: firstPage.pageInfo.endCursor },
+        sortKeys
+      );
+      const numbered = await paginate(createQuery(), { page: 2, pageSize: 4 }, sortKeys);
+
+      expect(firstPage.pageInfo.totalCount).toBe(15);
+      expect(secondPage.pageInfo.countBefore).toBe(4);
+      expect(secondPage.pageInfo.countAfter).toBe(7);
+      expect(numbered.edges.map((e) => e.node.id)).toEqual(
+        secondPage.edges.map((e) => e.node.id)
+      );
+      expect(numbered.pageInfo.pageCount).toBe(4);
+    });
+  });
+
+  describe('configurable primary keys', () => {
+    let legacyRepo: Repository<TestLegacyProduct>;
+    let inventoryRepo: Repository<TestInventoryItem>;
+
+    beforeAll(async () => {
+      legacyRepo = dataSource.getRepository(TestLegacyProduct);
+      inventoryRepo = dataSource.getRepository(TestInventoryItem);
+
+      await legacyRepo.save(
+        Array.from({ length: 12 }, (_, i) => ({
+          productCode: 100 - i * 7,
+          name: `Legacy ${i}`,
+          price: i % 3,
+        }))
+      );
+      await inventoryRepo.save(
+        ['tenant-a', 'tenant-b', 'tenant-c'].flatMap((tenantId) =>
+          ['sku-1', 'sku-2', 'sku-3', 'sku-4'].map((sku) => ({
+            tenantId,
+            sku,
+            quantity: 5,
+          }))
+        )
+      );
+    });
+
+    afterAll(async () => {
+      await legacyRepo.clear();
+      await inventoryRepo.clear();
+    });
+
+    it('should use a differently named numeric primary key as the tiebreaker', async () => {
+      const codes: number[] = [];
+      let after: string | undefined = undefined;
+      let hasNextPage = true;
+
+      while (hasNextPage) {
+        const qb = legacyRepo.createQueryBuilder('legacy');
+        const page: IPaginatedType<TestLegacyProduct> = await paginate(
+          qb,
+          { first: 5, after },
+          'legacy.price'
+        );
+        codes.push(...page.edges.map((e) => e.node.productCode));
+        after = page.pageInfo.endCursor;
+        hasNextPage = page.pageInfo.hasNextPage;
+      }
+
+      const expected = (await legacyRepo.find())
+        .sort((a, b) => a.price - b.price || a.productCode - b.productCode)
+        .map((p) => p.productCode);
+      expect(codes).toEqual(expected);
+    });
+
+    it('should keep numeric keys typed in cursors', async () => {
+      const qb = legacyRepo.createQueryBuilder('legacy');
+      const result = await paginate(qb, { first: 1 }, 'legacy.productCode');
+      const payload = JSON.parse(
+        Buffer.from(result.pageInfo.endCursor ?? '', 'base64').toString('utf8')
+      );
+
+      expect(payload.c).toEqual(['legacy.productCode']);
+      expect(payload.k).toEqual([23]);
+    });
+
+    it('should page through a composite primary key', async () => {
+      const keys: string[] = [];
+      let after: string | undefined = undefined;
+      let hasNextPage = true;
+
+      while (hasNextPage) {
+        const qb = inventoryRepo.createQueryBuilder('item');
+        const page: IPaginatedType<TestInventoryItem> = await paginate(
+          qb,
+          { first: 5, after },
+          'item.quantity'
+        );
+        expect(page.pageInfo.countBefore).toBe(keys.length);
+        keys.push(
+          ...page.edges.map((e) => `${e.node.tenantId}/${e.node.sku}`)
+        );
+        after = page.pageInfo.endCursor;
+        hasNextPage = page.pageInfo.hasNextPage;
+      }
+
+      expect(keys).toHaveLength(12);
+      expect(keys).toEqual([...keys].sort());
+    });
+
+    it('should accept an explicit unique key', async () => {
+      const qb = inventoryRepo.createQueryBuilder('item');
+      const result = await paginate(qb, { first: 4, reverse: true }, 'item.quantity', {
+        primaryKey: ['sku', 'tenantId'],
+      });
+
+      expect(result.edges.map((e) => `${e.node.sku}/${e.node.tenantId}`)).toEqual([
+        'sku-4/tenant-c',
+        'sku-4/tenant-b',
+        'sku-4/tenant-a',
+        'sku-3/tenant-c',
+      ]);
+    });
+
+    it('should sort by a differently named primary key by default', async () => {
+      const result = await paginate(legacyRepo.createQueryBuilder('legacy'), {
+        first: 3,
       });
 
+      expect(result.edges.map((e) => e.node.productCode)).toEqual([23, 30, 37]);
+    });
+
+    it('should sort by a composite primary key by default', async () => {
+      const first = await paginate(inventoryRepo.createQueryBuilder('item'), {
+        first: 5,
+      });
+      const second = await paginate(inventoryRepo.createQueryBuilder('item'), {
+        first: 5,
+        after: first.pageInfo.endCursor,
+      });
+
+      expect(
+        [...first.edges, ...second.edges].map(
+          (e) => `${e.node.tenantId}/${e.node.sku}`
+        )
+      ).toEqual([
+        'tenant-a/sku-1',
+        'tenant-a/sku-2',
+        'tenant-a/sku-3',
+        'tenant-a/sku-4',
+        'tenant-b/sku-1',
+        'tenant-b/sku-2',
+        'tenant-b/sku-3',
+        'tenant-b/sku-4',
+        'tenant-c/sku-1',
+        'tenant-c/sku-2',
+      ]);
+    });
+
+    it('should sort by an explicit unique key by default', async () => {
+      const result = await paginate(
+        inventoryRepo.createQueryBuilder('item'),
+        { first: 4 },
+        undefined,
+        { primaryKey: ['sku', 'tenantId'] }
+      );
+
+      expect(result.edges.map((e) => `${e.node.sku}/${e.node.tenantId}`)).toEqual([
+        'sku-1/tenant-a',
+        'sku-1/tenant-b',
+        'sku-1/tenant-c',
+        'sku-2/tenant-a',
+      ]);
+    });
+
+    it('should look up the cursor of a composite key', async () => {
+      const all = await paginate(
+        inventoryRepo.createQueryBuilder('item'),
+        { first: 12 },
+        'item.quantity'
+      );
+
+      const cursor = await getCursorForId(
+        inventoryRepo.createQueryBuilder('item'),
+        { tenantId: 'tenant-b', sku: 'sku-2' },
+        'item.quantity'
+      );
+
+      expect(cursor).toBe(all.edges[5]?.cursor);
+    });
+  });
+
+  describe('node id bounds', () => {
+    const sortKeys = [
+      { column: 'product.price', direction: SortDirectionEnum.DESC },
+    ];
+
+    it('should look up the cursor paginate gives a node', async () => {
+      const all = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 40 },
+        sortKeys
+      );
+      const edge = all.edges.find((e) => e.node.id === 'prod-20');
+
+      const cursor = await getCursorForId(
+        productRepo.createQueryBuilder('product'),
+        'prod-20',
+        sortKeys
+      );
+
+      expect(cursor).toBe(edge?.cursor);
+    });
+
+    it('should page after and before a node id', async () => {
+      const after = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 3, afterId: 'prod-10' },
+        'product.id'
+      );
+      const before = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { last: 3, beforeId: 'prod-10' },
+        'product.id'
+      );
+
+      expect(after.edges.map((e) => e.node.id)).toEqual([
+        'prod-11',
+        'prod-12',
+        'prod-13',
+      ]);
+      expect(after.pageInfo.hasPreviousPage).toBe(true);
+      expect(before.edges.map((e) => e.node.id)).toEqual([
+        'prod-07',
+        'prod-08',
+        'prod-09',
+      ]);
+      expect(before.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it('should bound a page by node ids on both sides', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 10, afterId: 'prod-30', beforeId: 'prod-25' },
+        sortKeys
+      );
+
+      expect(result.edges.map((e) => e.node.id)).toEqual([
+        'prod-29',
+        'prod-28',
+        'prod-27',
+        'prod-26',
+      ]);
+    });
+
+    it('should throw a typed error for an id outside the filtered set', async () => {
+      const query = productRepo
+        .createQueryBuilder('product')
+        .where('product.category = :category', { category: 'Books' });
+
+      const error = await paginate(
+        query,
+        { first: 3, afterId: 'prod-01' },
+        'product.id'
+      ).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NodeNotFoundError);
+      expect((error as NodeNotFoundError).id).toBe('prod-01');
+      await expect(
+        getCursorForId(productRepo.createQueryBuilder('product'), 'prod-99')
+      ).rejects.toThrow('No node was found with the id "prod-99"');
+    });
+
+    it('should reject a cursor and a node id for the same bound', async () => {
+      const first = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 1 },
+        'product.id'
+      );
+
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('product'),
+          { first: 3, after: first.pageInfo.endCursor, afterId: 'prod-05' },
+          'product.id'
+        )
+      ).rejects.toThrow('Cannot use both "after" and "afterId"');
+    });
+  });
+
+  describe('count strategies', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    function createInfo(query: string): GraphQLResolveInfo {
+      const operation = parse(query).definitions[0] as OperationDefinitionNode;
+      return {
+        fieldNodes: [operation.selectionSet.selections[0] as FieldNode],
+        fragments: {},
+      } as unknown as GraphQLResolveInfo;
+    }
+
+    it('should not count with the probe strategy', async () => {
       const qb = productRepo.createQueryBuilder('TestProduct');
-      qb.where('TestProduct.id = :id', { id: 'special-chars' });
-      const result = await paginate(qb, { first: 1 }, 'TestProduct.id');
+      const getCount = jest.spyOn(SelectQueryBuilder.prototype, 'getCount');
 
-      expect(result.edges[0]?.cursor).toBeDefined();
+      const result = await paginate(qb, { first: 10 }, 'TestProduct.id', {
+        countStrategy: 'probe',
+      });
 
-      // Cleanup
-      await productRepo.delete('special-chars');
+      expect(result.edges).toHaveLength(10);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+      expect(result.pageInfo.hasPreviousPage).toBe(false);
+      expect(result.pageInfo.totalCount).toBeNull();
+      expect(result.pageInfo.countBefore).toBeNull();
+      expect(result.pageInfo.countAfter).toBeNull();
+      expect(getCount).not.toHaveBeenCalled();
+    });
+
+    it('should detect the last page with the probe strategy', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 30 },
+        'TestProduct.id',
+        { countStrategy: 'probe' }
+      );
+      const lastPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10, after: firstPage.pageInfo.endCursor },
+        'TestProduct.id',
+        { countStrategy: 'probe' }
+      );
+
+      expect(lastPage.edges).toHaveLength(10);
+      expect(lastPage.pageInfo.hasNextPage).toBe(false);
+      expect(lastPage.pageInfo.hasPreviousPage).toBe(true);
+    });
+
+    it('should probe backward with the probe strategy', async () => {
+      const lastPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { last: 40 },
+        'TestProduct.id',
+        { countStrategy: 'probe' }
+      );
+
+      expect(lastPage.edges).toHaveLength(40);
+      expect(lastPage.pageInfo.hasPreviousPage).toBe(false);
+      expect(lastPage.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it('should assume a full page has a next page with the none strategy', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 40 },
+        'TestProduct.id',
+        { countStrategy: 'none' }
+      );
+
+      expect(result.edges).toHaveLength(40);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+      expect(result.pageInfo.totalCount).toBeNull();
+    });
+
+    it('should count when a count field is selected', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10 },
+        'TestProduct.id',
+        {
+          countStrategy: 'selection',
+          info: createInfo('{ products { pageInfo { totalCount } } }'),
+        }
+      );
+
+      expect(result.pageInfo.totalCount).toBe(40);
+    });
+
+    it('should probe when no count field is selected', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10 },
+        'TestProduct.id',
+        {
+          countStrategy: 'selection',
+          info: createInfo('{ products { pageInfo { hasNextPage } } }'),
+        }
+      );
+
+      expect(result.pageInfo.totalCount).toBeNull();
+      expect(result.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it('should require the resolve info with the selection strategy', async () => {
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('TestProduct'),
+          { first: 10 },
+          'TestProduct.id',
+          { countStrategy: 'selection' }
+        )
+      ).rejects.toThrow('The "selection" count strategy requires the resolve info');
+    });
+
+    it('should count when edge positions are selected', async () => {
+      const info = createInfo(
+        '{ products { edges { position node { id } } } }'
+      );
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 2 },
+        'TestProduct.id',
+        { countStrategy: 'selection', info, positions: true }
+      );
+
+      expect(result.pageInfo.totalCount).toBe(40);
+      expect(result.edges.map((e) => e.position)).toEqual([1, 2]);
+    });
+  });
+
+  describe('edge positions', () => {
+    const positions = (result: IPaginatedType<TestProduct>) =>
+      result.edges.map((e) => e.position);
+
+    it('should not set positions unless asked to', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 3 },
+        'product.id'
+      );
+
+      expect(positions(result)).toEqual([undefined, undefined, undefined]);
+    });
+
+    it('should number the edges from the count before the page', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 5 },
+        'product.id',
+        { positions: true }
+      );
+      const secondPage = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 5, after: firstPage.pageInfo.endCursor },
+        'product.id',
+        { positions: true }
+      );
+      const lastPage = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { last: 3 },
+        'product.id',
+        { positions: true }
+      );
+
+      expect(positions(firstPage)).toEqual([1, 2, 3, 4, 5]);
+      expect(positions(secondPage)).toEqual([6, 7, 8, 9, 10]);
+      expect(positions(lastPage)).toEqual([38, 39, 40]);
+    });
+
+    it('should number the edges of a window around an anchor', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { around: 'prod-20', last: 1, first: 1 },
+        'product.id',
+        { positions: true }
+      );
+
+      expect(positions(result)).toEqual([19, 20, 21]);
+    });
+
+    it('should number the edges of a page without counting', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { page: 3, pageSize: 5 },
+        'product.id',
+        { positions: true, countStrategy: 'probe' }
+      );
+
+      expect(positions(result)).toEqual([11, 12, 13, 14, 15]);
+    });
+
+    it('should not set positions in cursor mode without counting', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 2 },
+        'product.id',
+        { positions: true, countStrategy: 'probe' }
+      );
+
+      expect(positions(result)).toEqual([undefined, undefined]);
+    });
+  });
+
+  describe('count queries', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should read both counts from a single statement', async () => {
+      const sortKeys: SortKey[] = [{ column: 'price', direction: SortDirectionEnum.DESC }];
+      const electronics = () =>
+        productRepo
+          .createQueryBuilder('TestProduct')
+          .where('TestProduct.category = :category', { category: 'Electronics' });
+      const firstPage = await paginate(electronics(), { first: 3 }, sortKeys);
+      const getCount = jest.spyOn(SelectQueryBuilder.prototype, 'getCount');
+      const getRawOne = jest.spyOn(SelectQueryBuilder.prototype, 'getRawOne');
+
+      const result = await paginate(
+        electronics(),
+        { first: 3, after: firstPage.pageInfo.endCursor },
+        sortKeys
+      );
+
+      const all = await electronics()
+        .orderBy('TestProduct.price', 'DESC')
+        .addOrderBy('TestProduct.id', 'DESC')
+        .getMany();
+      const start = all.findIndex((p) => p.id === result.edges[0].node.id);
+
+      expect(getCount).not.toHaveBeenCalled();
+      expect(getRawOne).toHaveBeenCalledTimes(1);
+      expect(result.pageInfo.countBefore).toBe(start);
+      expect(result.pageInfo.countAfter).toBe(all.length - start - result.edges.length);
+      expect(result.pageInfo.totalCount).toBe(all.length);
+    });
+
+    it('should count separately when the query joins relations', async () => {
+      const getCount = jest.spyOn(SelectQueryBuilder.prototype, 'getCount');
+
+      const result = await paginate(
+        productRepo
+          .createQueryBuilder('TestProduct')
+          .leftJoinAndSelect('TestProduct.categoryRelation', 'category'),
+        { first: 10 },
+        'TestProduct.id'
+      );
+
+      expect(getCount).toHaveBeenCalledTimes(2);
+      expect(result.pageInfo.countBefore).toBe(0);
+      expect(result.pageInfo.countAfter).toBe(30);
+      expect(result.pageInfo.totalCount).toBe(40);
+    });
+  });
+
+  describe('windows around an anchor', () => {
+    const ids = (result: IPaginatedType<TestProduct>) =>
+      result.edges.map((e) => e.node.id);
+
+    it('should return the elements around a node id', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { around: 'prod-20', last: 2, first: 3 },
+        'product.id'
+      );
+
+      expect(ids(result)).toEqual([
+        'prod-18',
+        'prod-19',
+        'prod-20',
+        'prod-21',
+        'prod-22',
+        'prod-23',
+      ]);
+      expect(result.pageInfo).toMatchObject({
+        hasPreviousPage: true,
+        hasNextPage: true,
+        countBefore: 17,
+        countAfter: 17,
+        totalCount: 40,
+      });
+    });
+
+    it('should return the elements around a cursor', async () => {
+      const sortKeys = [
+        { column: 'product.price', direction: SortDirectionEnum.DESC },
+      ];
+      const all = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 40 },
+        sortKeys
+      );
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { around: all.edges[10]?.cursor, last: 4, first: 4 },
+        sortKeys
+      );
+
+      expect(ids(result)).toEqual(ids(all).slice(6, 15));
+      expect(result.edges[4]?.cursor).toBe(all.edges[10]?.cursor);
+    });
+
+    it('should clip the window at the ends of the list', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { around: 'prod-02', last: 5, first: 1 },
+        'product.id'
+      );
+
+      expect(ids(result)).toEqual(['prod-01', 'prod-02', 'prod-03']);
+      expect(result.pageInfo.hasPreviousPage).toBe(false);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+      expect(result.pageInfo.countBefore).toBe(0);
+    });
+
+    it('should center the window on a cursor whose node was removed', async () => {
+      const all = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 40 },
+        'product.id'
+      );
+      const removed = (await productRepo.findOneBy({
+        id: 'prod-20',
+      })) as TestProduct;
+      await productRepo.delete({ id: 'prod-20' });
+
+      try {
+        const result = await paginate(
+          productRepo.createQueryBuilder('product'),
+          { around: all.edges[19]?.cursor, last: 2, first: 2 },
+          'product.id'
+        );
+
+        expect(ids(result)).toEqual([
+          'prod-18',
+          'prod-19',
+          'prod-21',
+          'prod-22',
+        ]);
+        expect(result.pageInfo.totalCount).toBe(39);
+      } finally {
+        await productRepo.save(removed);
+      }
+    });
+
+    it('should probe for elements beyond the window without counting', async () => {
+      const result = await paginate(
+        productRepo
+          .createQueryBuilder('product')
+          .where('product.category = :category', { category: 'Books' }),
+        { around: 'prod-28', last: 2, first: 2 },
+        'product.id',
+        { countStrategy: 'probe' }
+      );
+
+      expect(ids(result)).toEqual([
+        'prod-26',
+        'prod-27',
+        'prod-28',
+        'prod-29',
+        'prod-30',
+      ]);
+      expect(result.pageInfo).toMatchObject({
+        hasPreviousPage: true,
+        hasNextPage: false,
+        totalCount: null,
+      });
+    });
+
+    it('should reject an id that does not match the query', async () => {
+      await expect(
+        paginate(
+          productRepo
+            .createQueryBuilder('product')
+            .where('product.category = :category', { category: 'Books' }),
+          { around: 'prod-01', first: 2 },
+          'product.id'
+        )
+      ).rejects.toThrow('No node was found with the id "prod-01"');
+    });
+
+    it('should reject "around" with other cursor arguments', async () => {
+      const first = await paginate(
+        productRepo.createQueryBuilder('product'),
+        { first: 1 },
+        'product.id'
+      );
+
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('product'),
+          { around: 'prod-05', after: first.pageInfo.endCursor },
+          'product.id'
+        )
+      ).rejects.toThrow(
+        'Cannot use "around" with "after", "before", "page" or "pageSize"'
+      );
+    });
+  });
+
+  describe('page mode', () => {
+    it('should fetch a page by its number', async () => {
+      const cursorPages = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 20 },
+        'TestProduct.id'
+      );
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { page: 2, pageSize: 10 },
+        'TestProduct.id'
+      );
+
+      expect(result.edges.map((e) => e.node.id)).toEqual(
+        cursorPages.edges.slice(10).map((e) => e.node.id)
+      );
+      expect(result.pageInfo.currentPage).toBe(2);
+      expect(result.pageInfo.pageCount).toBe(4);
+      expect(result.pageInfo.totalCount).toBe(40);
+      expect(result.pageInfo.countBefore).toBe(10);
+      expect(result.pageInfo.countAfter).toBe(20);
+      expect(result.pageInfo.hasPreviousPage).toBe(true);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it('should issue cursors that continue in cursor mode', async () => {
+      const page = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { page: 2, pageSize: 10 },
+        [{ column: 'price', direction: SortDirectionEnum.DESC }]
+      );
+      const byPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { page: 3, pageSize: 10 },
+        [{ column: 'price', direction: SortDirectionEnum.DESC }]
+      );
+
+      const next = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10, after: page.pageInfo.endCursor },
+        [{ column: 'price', direction: SortDirectionEnum.DESC }]
+      );
+      const previous = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { last: 10, before: page.pageInfo.startCursor },
+        [{ column: 'price', direction: SortDirectionEnum.DESC }]
+      );
+
+      expect(next.edges.map((e) => e.node.id)).toEqual(byPage.edges.map((e) => e.node.id));
+      expect(next.pageInfo.countBefore).toBe(20);
+      expect(previous.edges).toHaveLength(10);
+      expect(previous.pageInfo.hasPreviousPage).toBe(false);
+      expect(next.pageInfo.currentPage).toBeNull();
+      expect(next.pageInfo.pageCount).toBeNull();
+    });
+
+    it('should return a partial last page', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { page: 3, pageSize: 15 },
+        'TestProduct.id'
+      );
+
+      expect(result.edges).toHaveLength(10);
+      expect(result.pageInfo.pageCount).toBe(3);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+      expect(result.pageInfo.countAfter).toBe(0);
+    });
+
+    it('should return an empty page past the last page', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { page: 9, pageSize: 10 },
+        'TestProduct.id'
+      );
+
+      expect(result.edges).toHaveLength(0);
+      expect(result.pageInfo.currentPage).toBe(9);
+      expect(result.pageInfo.pageCount).toBe(4);
+      expect(result.pageInfo.countBefore).toBe(40);
+      expect(result.pageInfo.hasPreviousPage).toBe(true);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it('should not count pages with the probe strategy', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { page: 4, pageSize: 10 },
+        'TestProduct.id',
+        { countStrategy: 'probe' }
+      );
+
+      expect(result.edges).toHaveLength(10);
+      expect(result.pageInfo.currentPage).toBe(4);
+      expect(result.pageInfo.pageCount).toBeNull();
+      expect(result.pageInfo.totalCount).toBeNull();
+      expect(result.pageInfo.hasPreviousPage).toBe(true);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it('should reject page arguments combined with cursor arguments', async () => {
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('TestProduct'),
+          { page: 1, first: 10 },
+          'TestProduct.id'
+        )
+      ).rejects.toThrow('Cannot use "page" or "pageSize" with "first", "last", "after" or "before"');
+    });
+
+    it('should reject a page number below 1', async () => {
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('TestProduct'),
+          { page: 0, pageSize: 10 },
+          'TestProduct.id'
+        )
+      ).rejects.toThrow('"page" must be a positive integer');
+    });
+  });
+
+  describe('page size limits', () => {
+    afterEach(() => {
+      configurePagination({});
+    });
+
+    it('should return an empty page for first: 0 with the counts', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 0 },
+        'TestProduct.id'
+      );
+
+      expect(result.edges).toHaveLength(0);
+      expect(result.pageInfo.totalCount).toBe(40);
+      expect(result.pageInfo.countBefore).toBe(0);
+      expect(result.pageInfo.countAfter).toBe(40);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+      expect(result.pageInfo.hasPreviousPage).toBe(false);
+    });
+
+    it('should return an empty page for last: 0 with the counts', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { last: 0 },
+        'TestProduct.id'
+      );
+
+      expect(result.edges).toHaveLength(0);
+      expect(result.pageInfo.countBefore).toBe(40);
+      expect(result.pageInfo.countAfter).toBe(0);
+      expect(result.pageInfo.hasPreviousPage).toBe(true);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it('should count around the cursor for an empty page', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10 },
+        'TestProduct.id'
+      );
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 0, after: firstPage.pageInfo.endCursor },
+        'TestProduct.id'
+      );
+
+      expect(result.edges).toHaveLength(0);
+      expect(result.pageInfo.countBefore).toBe(10);
+      expect(result.pageInfo.countAfter).toBe(30);
+      expect(result.pageInfo.totalCount).toBe(40);
+    });
+
+    it('should use the default page size of the query', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        {},
+        'TestProduct.id',
+        { defaultPageSize: 5 }
+      );
+
+      expect(result.edges).toHaveLength(5);
+    });
+
+    it('should follow an after cursor with the default page size', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10 },
+        'TestProduct.id'
+      );
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { after: firstPage.pageInfo.endCursor },
+        'TestProduct.id'
+      );
+
+      expect(result.edges).toHaveLength(25);
+      expect(result.pageInfo.countBefore).toBe(10);
+    });
+
+    it('should reject a page size above the maximum', async () => {
+      const request = paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 100 },
+        'TestProduct.id',
+        { maxPageSize: 20 }
+      );
+
+      await expect(request).rejects.toThrow(PageSizeExceededError);
+      await expect(request).rejects.toThrow('"first" must not exceed 20, got 100');
+    });
+
+    it('should clamp a page size above the maximum', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { last: 100 },
+        'TestProduct.id',
+        { maxPageSize: 20, pageSizeLimitMode: 'clamp' }
+      );
+
+      expect(result.edges).toHaveLength(20);
+      expect(result.pageInfo.countBefore).toBe(20);
+    });
+
+    it('should apply the configured limits to every query', async () => {
+      configurePagination({ defaultPageSize: 5, maxPageSize: 10 });
+
+      const defaultPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        {},
+        'TestProduct.id'
+      );
+
+      expect(defaultPage.edges).toHaveLength(5);
+      await expect(
+        paginate(productRepo.createQueryBuilder('TestProduct'), { first: 11 }, 'TestProduct.id')
+      ).rejects.toThrow(PageSizeExceededError);
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('TestProduct'),
+          { page: 1, pageSize: 11 },
+          'TestProduct.id'
+        )
+      ).rejects.toThrow('"pageSize" must not exceed 10, got 11');
+    });
+
+    it('should let a query override the configured limits', async () => {
+      configurePagination({ maxPageSize: 10 });
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 30 },
+        'TestProduct.id',
+        { maxPageSize: 50 }
+      );
+
+      expect(result.edges).toHaveLength(30);
+    });
+
+    it('should reject a negative page size', async () => {
+      await expect(
+        paginate(productRepo.createQueryBuilder('TestProduct'), { first: -1 }, 'TestProduct.id')
+      ).rejects.toThrow('"first" must be a non-negative integer');
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should handle empty results', async () => {
+      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
+      queryBuilder.where('TestProduct.price > :price', { price: 999999 });
+
+      const result = await paginate(queryBuilder, { first: 10 }, 'TestProduct.id');
+
+      expect(result.edges).toHaveLength(0);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+      expect(result.pageInfo.hasPreviousPage).toBe(false);
+      expect(result.pageInfo.totalCount).toBe(0);
+      expect(result.pageInfo.startCursor).toBeUndefined();
+      expect(result.pageInfo.endCursor).toBeUndefined();
+    });
+
+    it('should handle single result', async () => {
+      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
+      queryBuilder.where('TestProduct.id = :id', { id: 'prod-01' });
+
+      const result = await paginate(queryBuilder, { first: 10 }, 'TestProduct.id');
+
+      expect(result.edges).toHaveLength(1);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+      expect(result.pageInfo.hasPreviousPage).toBe(false);
+      expect(result.pageInfo.totalCount).toBe(1);
+    });
+
+    it('should handle requesting more items than available', async () => {
+      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
+      queryBuilder.where('TestProduct.category = :cat', { cat: 'Books' });
+
+      const result = await paginate(queryBuilder, { first: 100 }, 'TestProduct.id');
+
+      expect(result.edges.length).toBeLessThan(100);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+  });
+
+  describe('cursor encoding/decoding', () => {
+    it('should properly encode and decode cursors', async () => {
+      const queryBuilder = productRepo.createQueryBuilder('TestProduct');
+      const firstPage = await paginate(queryBuilder, { first: 5 }, 'TestProduct.id');
+
+      const cursor = firstPage.pageInfo.endCursor;
+      expect(cursor).toBeDefined();
+      expect(typeof cursor).toBe('string');
+
+      // Use cursor for next page
+      const nextQb = productRepo.createQueryBuilder('TestProduct');
+      const nextPage = await paginate(
+        nextQb,
+        { first: 5, after: cursor },
+        'TestProduct.id'
+      );
+
+      expect(nextPage.edges).toHaveLength(5);
+    });
+
+    it('should page by a date column across several pages', async () => {
+      const ids: string[] = [];
+      let after: string | undefined = undefined;
+      let hasNextPage = true;
+
+      while (hasNextPage) {
+        const qb = productRepo.createQueryBuilder('TestProduct');
+        const page: IPaginatedType<TestProduct> = await paginate(
+          qb,
+          { first: 9, after },
+          'TestProduct.createdAt'
+        );
+        ids.push(...page.edges.map((e) => e.node.id));
+        after = page.pageInfo.endCursor;
+        hasNextPage = page.pageInfo.hasNextPage;
+      }
+
+      expect(ids).toHaveLength(40);
+      expect(ids[0]).toBe('prod-01');
+      expect(ids.at(-1)).toBe('prod-40');
+    });
+
+    it('should page by a column whose values contain the legacy delimiter', async () => {
+      await productRepo.save(
+        ['a|1', 'a|2', 'a|3'].map((name, i) => ({
+          id: `pipe-${i}`,
+          name,
+          price: 100,
+          category: 'Pipes',
+          createdAt: new Date(),
+          stock: 1,
+        }))
+      );
+
+      const qb1 = productRepo.createQueryBuilder('TestProduct');
+      qb1.where('TestProduct.category = :category', { category: 'Pipes' });
+      const firstPage = await paginate(qb1, { first: 2 }, 'TestProduct.name');
+
+      const qb2 = productRepo.createQueryBuilder('TestProduct');
+      qb2.where('TestProduct.category = :category', { category: 'Pipes' });
+      const secondPage = await paginate(
+        qb2,
+        { first: 2, after: firstPage.pageInfo.endCursor },
+        'TestProduct.name'
+      );
+
+      expect(secondPage.edges.map((e) => e.node.name)).toEqual(['a|3']);
+
+      await productRepo.delete(['pipe-0', 'pipe-1', 'pipe-2']);
+    });
+
+    it('should accept legacy value|id cursors by default', async () => {
+      const legacyCursor = Buffer.from('600|prod-01').toString('base64');
+      const qb = productRepo.createQueryBuilder('TestProduct');
+      const result = await paginate(
+        qb,
+        { first: 1, after: legacyCursor },
+        'TestProduct.price'
+      );
+
+      expect(result.edges[0]?.node.id).toBe('prod-02');
+    });
+
+    it('should reject legacy cursors when they are not accepted', async () => {
+      const qb = productRepo.createQueryBuilder('TestProduct');
+
+      await expect(
+        paginate(
+          qb,
+          { first: 1, after: Buffer.from('zzzz').toString('base64') },
+          'TestProduct.id',
+          { cursor: { acceptLegacy: false } }
+        )
+      ).rejects.toThrow(InvalidCursorError);
+    });
+
+    it('should handle cursors with special characters in values', async () => {
+      // Create a product with special characters
+      await productRepo.save({
+        id: 'special-chars',
+        name: 'Product @#$%^&*()',
+        price: 100,
+        category: 'Test',
+        description: 'Special chars: <>&"\'',
+        createdAt: new Date(),
+        stock: 5,
+      });
+
+      const qb = productRepo.createQueryBuilder('TestProduct');
+      qb.where('TestProduct.id = :id', { id: 'special-chars' });
+      const result = await paginate(qb, { first: 1 }, 'TestProduct.id');
+
+      expect(result.edges[0]?.cursor).toBeDefined();
+
+      // Cleanup
+      await productRepo.delete('special-chars');
+    });
+  });
+
+  describe('cursor binding', () => {
+    const byCategory = (category: string) =>
+      productRepo
+        .createQueryBuilder('TestProduct')
+        .where('TestProduct.category = :category', { category });
+
+    it('should reject a cursor issued for other sort columns', async () => {
+      const byPrice = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 5 },
+        [{ column: 'price' }]
+      );
+
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('TestProduct'),
+          { first: 5, after: byPrice.pageInfo.endCursor },
+          'TestProduct.id'
+        )
+      ).rejects.toThrow(CursorMismatchError);
+    });
+
+    it('should reject a cursor issued for another sort direction', async () => {
+      const ascending = await paginate(byCategory('Books'), { first: 5 }, [{ column: 'price' }]);
+
+      await expect(
+        paginate(
+          byCategory('Books'),
+          { first: 5, after: ascending.pageInfo.endCursor, reverse: true },
+          [{ column: 'price' }]
+        )
+      ).rejects.toThrow(CursorMismatchError);
+    });
+
+    it('should reject a cursor issued for other filters', async () => {
+      const books = await paginate(byCategory('Books'), { first: 5 }, 'TestProduct.id');
+
+      await expect(
+        paginate(
+          byCategory('Electronics'),
+          { first: 5, after: books.pageInfo.endCursor },
+          'TestProduct.id'
+        )
+      ).rejects.toThrow('Cursor was issued for a different sort order or filter set');
+    });
+
+    it('should accept a cursor for the same query shape', async () => {
+      const firstPage = await paginate(byCategory('Books'), { first: 2 }, 'TestProduct.id');
+
+      const secondPage = await paginate(
+        byCategory('Books'),
+        { first: 2, after: firstPage.pageInfo.endCursor },
+        'TestProduct.id'
+      );
+
+      expect(secondPage.edges.length).toBeGreaterThan(0);
+      expect(secondPage.pageInfo.countBefore).toBe(2);
+    });
+
+    it('should reject a cursor issued without a fingerprint', async () => {
+      const firstPage = await paginate(byCategory('Books'), { first: 2 }, 'TestProduct.id');
+      const lastId = firstPage.edges[1].node.id;
+      const cursor = Cursor.fromPayload({ columns: ['TestProduct.id'], values: [lastId] }).encode();
+
+      await expect(
+        paginate(
+          byCategory('Electronics'),
+          { first: 2, after: cursor },
+          'TestProduct.id'
+        )
+      ).rejects.toThrow(CursorMismatchError);
+    });
+  });
+
+  describe('snapshots', () => {
+    const newIds = ['prod-41', 'prod-42'];
+    const options = { snapshotColumn: 'createdAt' };
+    const newestFirst: SortKey[] = [
+      { column: 'createdAt', direction: SortDirectionEnum.DESC },
+    ];
+
+    const insertNewProducts = () =>
+      productRepo.save(
+        newIds.map((id, index) => ({
+          id,
+          name: `Shirt ${11 + index}`,
+          price: 60,
+          category: 'Clothing',
+          createdAt: new Date(Date.UTC(2024, 2, 1 + index)),
+        }))
+      );
+
+    afterEach(async () => {
+      await productRepo.delete({ id: In(newIds) });
+    });
+
+    it('should keep later pages and counts to the snapshot of the first page', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10 },
+        newestFirst,
+        options
+      );
+      await insertNewProducts();
+
+      const secondPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10, after: firstPage.pageInfo.endCursor },
+        newestFirst,
+        options
+      );
+
+      expect(firstPage.pageInfo.totalCount).toBe(40);
+      expect(firstPage.pageInfo.hasNewerRecords).toBe(false);
+      expect(secondPage.edges[0].node.id).toBe('prod-30');
+      expect(secondPage.pageInfo.countBefore).toBe(10);
+      expect(secondPage.pageInfo.totalCount).toBe(40);
+      expect(secondPage.pageInfo.hasNewerRecords).toBe(true);
+    });
+
+    it('should carry the snapshot from page to page', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 20 },
+        'TestProduct.id',
+        options
+      );
+      await insertNewProducts();
+      const secondPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 20, after: firstPage.pageInfo.endCursor },
+        'TestProduct.id',
+        options
+      );
+
+      const lastPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 20, after: secondPage.pageInfo.endCursor },
+        'TestProduct.id',
+        options
+      );
+
+      expect(secondPage.edges.at(-1)?.node.id).toBe('prod-40');
+      expect(secondPage.pageInfo.hasNextPage).toBe(false);
+      expect(lastPage.edges).toHaveLength(0);
+      expect(lastPage.pageInfo.hasNewerRecords).toBe(true);
+    });
+
+    it('should pin a new snapshot without a cursor', async () => {
+      await insertNewProducts();
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 10 },
+        newestFirst,
+        options
+      );
+
+      expect(result.edges[0].node.id).toBe('prod-42');
+      expect(result.pageInfo.totalCount).toBe(42);
+      expect(result.pageInfo.hasNewerRecords).toBe(false);
+    });
+
+    it('should keep a window around an anchor to the snapshot', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 5 },
+        newestFirst,
+        options
+      );
+      await insertNewProducts();
+
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { around: firstPage.edges[0].cursor, first: 2, last: 2 },
+        newestFirst,
+        options
+      );
+
+      expect(result.edges.map((e) => e.node.id)).toEqual([
+        'prod-40',
+        'prod-39',
+        'prod-38',
+      ]);
+      expect(result.pageInfo.hasPreviousPage).toBe(false);
+      expect(result.pageInfo.hasNewerRecords).toBe(true);
+    });
+
+    it('should filter a snapshot of a filtered query', async () => {
+      const query = () =>
+        productRepo
+          .createQueryBuilder('TestProduct')
+          .where('TestProduct.category = :category', { category: 'Books' });
+      const firstPage = await paginate(query(), { first: 5 }, 'TestProduct.id', options);
+      await insertNewProducts();
+
+      const secondPage = await paginate(
+        query(),
+        { first: 5, after: firstPage.pageInfo.endCursor },
+        'TestProduct.id',
+        options
+      );
+
+      expect(secondPage.pageInfo.totalCount).toBe(15);
+      expect(secondPage.pageInfo.hasNewerRecords).toBe(false);
+    });
+
+    it('should not flag newer records outside of snapshot mode', async () => {
+      const result = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 5 },
+        'TestProduct.id'
+      );
+
+      expect(result.pageInfo.hasNewerRecords).toBeNull();
+    });
+
+    it('should reject a nullable snapshot column', async () => {
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('TestProduct'),
+          { first: 5 },
+          'TestProduct.id',
+          { snapshotColumn: 'description' }
+        )
+      ).rejects.toThrow('Cannot take a snapshot by the nullable column "TestProduct.description"');
+    });
+  });
+
+  describe('signed cursors', () => {
+    const options = { cursor: { secret: 'test-secret' } };
+
+    it('should paginate with signed cursors', async () => {
+      const firstPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 5 },
+        'TestProduct.price',
+        options,
+      );
+      const secondPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { first: 5, after: firstPage.pageInfo.endCursor },
+        'TestProduct.price',
+        options,
+      );
+
+      expect(secondPage.pageInfo.countBefore).toBe(5);
+      expect(secondPage.edges).toHaveLength(5);
+    });
+
+    it('should reject a forged cursor before running the query', async () => {
+      const forged = `${Buffer.from('0|prod-01').toString('base64url')}.forged`;
+
+      await expect(
+        paginate(
+          productRepo.createQueryBuilder('TestProduct'),
+          { first: 5, after: forged },
+          'TestProduct.price',
+          options,
+        ),
+      ).rejects.toThrow(InvalidCursorError);
+    });
+
+    it('should paginate with encrypted cursors', async () => {
+      const encrypted = { cursor: { secret: 'test-secret', encrypt: true } };
+      const lastPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { last: 5 },
+        'TestProduct.price',
+        encrypted,
+      );
+      const previousPage = await paginate(
+        productRepo.createQueryBuilder('TestProduct'),
+        { last: 5, before: lastPage.pageInfo.startCursor },
+        'TestProduct.price',
+        encrypted,
+      );
+
+      expect(previousPage.pageInfo.countAfter).toBe(5);
+      expect(previousPage.edges).toHaveLength(5);
     });
   });
 
@@ -372,9 +2132,9 @@ describe('paginate - Integration Tests', () => {
       const result = await paginate(queryBuilder, { first: 10 }, 'TestProduct.id');
 
       expect(result.pageInfo.totalCount).toBe(
-        result.pageInfo.countBefore +
+        (result.pageInfo.countBefore ?? 0) +
           result.edges.length +
-          result.pageInfo.countAfter
+          (result.pageInfo.countAfter ?? 0)
       );
     });
 
@@ -409,10 +2169,10 @@ describe('paginate - Integration Tests', () => {
     it('should throw error for invalid pagination arguments', async () => {
       const queryBuilder = productRepo.createQueryBuilder('TestProduct');
 
-      // Both first and last
+      // Negative page sizes
       await expect(
-        paginate(queryBuilder, { first: 10, last: 10 }, 'TestProduct.id')
-      ).rejects.toThrow();
+        paginate(queryBuilder, { first: 10, last: -1 }, 'TestProduct.id')
+      ).rejects.toThrow('"last" must be a non-negative integer');
     });
   });
 
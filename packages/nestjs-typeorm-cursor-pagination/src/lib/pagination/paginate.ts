@@ -23,97 +23,280 @@
  */
 
 import { Type } from '@nestjs/common';
-import {
-  Brackets,
-  LessThan,
-  MoreThan,
-  ObjectLiteral,
-  SelectQueryBuilder,
-} from 'typeorm';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { Alias } from 'typeorm/query-builder/Alias';
+import { getSqlDialect } from '../utils/dialect';
+import { isFieldSelected } from '../utils/graphql-selection';
 import { Cursor } from './cursor';
+import { CursorPayload, isCursorPayload } from './cursor-payload';
 import { PageInfo } from './page-info';
 import { IEdgeType, IPaginatedType } from './paginated';
 import { PaginationArgs } from './pagination.args';
+import { KeysetCondition, getKeysetCondition } from './keyset-condition';
+import {
+  InvalidCursorError,
+  NodeNotFoundError,
+  PageSizeExceededError,
+} from './pagination.errors';
+import { getQueryFingerprint } from './query-fingerprint';
+import {
+  CountStrategy,
+  PaginateOptions,
+  getPageSizeOptions,
+} from './pagination.options';
+import {
+  SortColumn,
+  SortKey,
+  applySortColumns,
+  flipSortColumn,
+  getPrimaryKeyColumns,
+  getSortColumns,
+} from './sort-key';
 
 interface IIndexable<T = Type> {
   [key: string]: T;
 }
 
-const multiColumnDelimiter = '|';
+interface PageCounts {
+  countBefore: number | null;
+  countAfter: number | null;
+  hasPreviousPage: boolean;
+  hasNextPage: boolean;
+}
+
+interface SortedNode<T> {
+  node: T;
+  values: unknown[];
+}
+
+/**
+ * What a cursor is bound to: the query it was issued for, and the snapshot of
+ * the list it belongs to, if any.
+ */
+interface CursorBinding {
+  fingerprint: string;
+  watermark?: unknown;
+}
+
+interface Snapshot {
+  watermark: unknown;
+  hasNewerRecords: boolean | Promise<boolean>;
+}
+
+interface PagePosition {
+  currentPage: number | null;
+  pageCount: number | null;
+}
+
+const everyRow: KeysetCondition = { where: '1 = 1', parameters: {} };
+
+const countFields = ['totalCount', 'countBefore', 'countAfter', 'pageCount'];
+
 /**
  * Inspired by:
  * - https://gist.github.com/tumainimosha/6652deb0aea172f7f2c4b2077c72d16c
  * - https://gist.github.com/VojtaSim/6b03466f1964a6c81a3dbf1f8cec8d5c
+ *
+ * @param query The query to paginate
+ * @param paginationArgs The pagination arguments
+ * @param cursorColumn A single column name, or an ordered list of sort keys
+ * each with its own direction. Defaults to the primary key of the entity
+ * @param options Options that change how rows are ordered, and how cursors
+ * are built and read
+ * @returns A paginated type
  */
 export async function paginate<T extends object>(
   query: SelectQueryBuilder<T>,
   paginationArgs: PaginationArgs,
-  cursorColumn = 'id',
+  cursorColumn?: string | SortKey[],
+  options: PaginateOptions = {},
 ): Promise<IPaginatedType<T>> {
-  // Validate pagination arguments
-  if (paginationArgs.first && paginationArgs.last) {
-    throw new Error('Cannot use both "first" and "last" parameters');
+  const totalCountQuery = query.clone();
+  const sortColumns = getSortColumns(
+    query,
+    cursorColumn,
+    paginationArgs.reverse,
+    options.primaryKey,
+  );
+  const fingerprint = getQueryFingerprint(totalCountQuery, sortColumns);
+  const snapshot = options.snapshotColumn
+    ? await takeSnapshot(
+        query,
+        totalCountQuery,
+        paginationArgs,
+        sortColumns,
+        fingerprint,
+        options,
+      )
+    : null;
+  const binding: CursorBinding = {
+    fingerprint,
+    watermark: snapshot?.watermark ?? undefined,
+  };
+
+  let paginating: Promise<IPaginatedType<T>>;
+  if (isDefined(paginationArgs.around)) {
+    paginating = paginateAround(
+      query,
+      totalCountQuery,
+      paginationArgs,
+      sortColumns,
+      binding,
+      options,
+    );
+  } else if (
+    isDefined(paginationArgs.page) ||
+    isDefined(paginationArgs.pageSize)
+  ) {
+    paginating = paginateByPage(
+      query,
+      totalCountQuery,
+      paginationArgs,
+      sortColumns,
+      binding,
+      options,
+    );
+  } else {
+    paginating = paginateByCursor(
+      query,
+      totalCountQuery,
+      paginationArgs,
+      sortColumns,
+      binding,
+      options,
+    );
   }
 
-  const totalCountQuery = query.clone();
-  const columnId =
-    cursorColumn.split('.').length > 1
-      ? cursorColumn.split('.').slice(1)[0]
-      : cursorColumn;
-  if (!columnId) {
-    throw new Error('Cursor column is required');
-  }
-
-  let cursor: Cursor | null = null;
-  let order: 'ASC' | 'DESC' = paginationArgs.reverse ? 'DESC' : 'ASC';
-  let limit = paginationArgs.first ?? paginationArgs.last ?? 25;
-
-  if (paginationArgs.first) {
-    // FORWARD pagination
-    limit = paginationArgs.first;
-    order = paginationArgs.reverse ? 'DESC' : 'ASC';
-    if (paginationArgs.after) {
-      cursor = new Cursor(paginationArgs.after, cursorColumn);
+  const [paginated, hasNewerRecords] = await Promise.all([
+    paginating,
+    snapshot?.hasNewerRecords ?? null,
+  ]);
+  if (snapshot) {
+    paginated.pageInfo.hasNewerRecords = hasNewerRecords;
+  }
+
+  return paginated;
+}
+
+/**
+ * Fetches a page bounded by cursors or ids, following the Relay cursor
+ * connections specification.
+ */
+async function paginateByCursor<T extends object>(
+  query: SelectQueryBuilder<T>,
+  totalCountQuery: SelectQueryBuilder<T>,
+  paginationArgs: PaginationArgs,
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): Promise<IPaginatedType<T>> {
+  // The Relay cursor connections algorithm: the `after` and `before` cursors
+  // bound a window of the list, of which the first `first` elements are kept,
+  // and then the last `last` of those. Without either, `first` defaults to
+  // the default page size.
+  const { after, before } = paginationArgs;
+  const resolveBound = async (
+    cursor: string | undefined,
+    id: string | undefined,
+    position: 'before' | 'after',
+  ): Promise<unknown[] | null> => {
+    if (cursor && isDefined(id)) {
+      throw new Error(`Cannot use both "${position}" and "${position}Id"`);
     }
-  } else if (paginationArgs.last) {
-    // REVERSE pagination
-    limit = paginationArgs.last;
-    order = paginationArgs.reverse ? 'ASC' : 'DESC';
-    if (paginationArgs.before) {
-      cursor = new Cursor(paginationArgs.before, cursorColumn);
+    if (cursor) {
+      return decodeCursor(cursor, sortColumns, binding, options);
     }
-  }
-  // Apply the order by clause
-  query.orderBy({ [cursorColumn]: order });
+    if (isDefined(id)) {
+      return (await findNodeById(totalCountQuery, id, sortColumns, options))
+        .values;
+    }
+    return null;
+  };
+  const first =
+    isDefined(paginationArgs.first) || !isDefined(paginationArgs.last)
+      ? getPageSize(paginationArgs.first, 'first', options)
+      : null;
+  const last = isDefined(paginationArgs.last)
+    ? getPageSize(paginationArgs.last, 'last', options)
+    : null;
 
-  // If the cursor column is not the id (unique, primary key), we need to
-  // add a secondary order by id to ensure that the results are deterministic.
-  // This is necessary because the cursor column may not be unique.
-  if (columnId !== 'id') {
-    const entityName = cursorColumn.split('.').slice(0)[0];
-    query.addOrderBy(`${entityName}.id`, order);
+  // The window is read from its start, unless only `last` is given: then it
+  // is read from its end, in the opposite order, and reversed afterwards.
+  const backward = first === null;
+  applySortColumns(
+    query,
+    backward ? sortColumns.map(flipSortColumn) : sortColumns,
+  );
+
+  const [afterValues, beforeValues] = await Promise.all([
+    resolveBound(after, paginationArgs.afterId, 'after'),
+    resolveBound(before, paginationArgs.beforeId, 'before'),
+  ]);
+  if (afterValues) {
+    applyKeysetCondition(
+      query,
+      getKeysetCondition(sortColumns, afterValues, 'after', 'cursorAfter'),
+    );
   }
+  if (beforeValues) {
+    applyKeysetCondition(
+      query,
+      getKeysetCondition(sortColumns, beforeValues, 'before', 'cursorBefore'),
+    );
+  }
+
+  // One extra row tells whether the window holds more than `first` (or
+  // `last`) elements, except with the `none` strategy, which assumes that a
+  // full page has more. An empty page then needs no rows at all.
+  const countStrategy = getCountStrategy(options);
+  const limit = backward ? (last ?? 0) : Math.max(first, last ?? 0);
+  const take = countStrategy === 'none' ? limit : limit + 1;
+  const rows = await fetchNodes(query, sortColumns, take);
+  const exceeds = (count: number) =>
+    countStrategy === 'none'
+      ? count > 0 && rows.length >= count
+      : rows.length > count;
 
-  if (cursor) {
-    getCursorWhereClause(query, cursor, columnId, paginationArgs);
+  let result: SortedNode<T>[];
+  if (backward) {
+    result = rows.slice(0, last ?? 0).reverse();
+  } else {
+    result = rows.slice(0, first);
+    if (last !== null) {
+      result = result.slice(Math.max(result.length - last, 0));
+    }
   }
-  query.take(limit);
 
-  let result: T[] = await query.getMany();
-  if (paginationArgs.last) {
-    result = result.reverse();
+  let countBefore: number | null = null;
+  let countAfter: number | null = null;
+  if (countStrategy === 'exact') {
+    ({ countBefore, countAfter } = await getCounts(
+      result,
+      totalCountQuery,
+      sortColumns,
+      backward ? beforeValues : afterValues,
+      backward,
+    ));
   }
 
-  const { countBefore, countAfter } = await getCounts(
-    result,
-    totalCountQuery,
-    query,
-    columnId,
-    paginationArgs,
-  );
+  // Elements before `after` (or after `before`) are only known from the
+  // counts; without them, a cursor is assumed to have elements beyond it.
+  const counts: PageCounts = {
+    countBefore,
+    countAfter,
+    hasPreviousPage:
+      last !== null
+        ? exceeds(last)
+        : afterValues !== null && (countBefore ?? 1) > 0,
+    hasNextPage:
+      first !== null
+        ? exceeds(first)
+        : beforeValues !== null && (countAfter ?? 1) > 0,
+  };
 
-  const edges = getEdges(result, columnId);
-  const pageInfo = getPageInfo(edges, countBefore, countAfter);
+  const edges = getEdges(result, sortColumns, binding, options);
+  setPositions(edges, countBefore, options);
+  const pageInfo = getPageInfo(edges, counts);
 
   return {
     edges,
@@ -121,136 +304,561 @@ export async function paginate<T extends object>(
   };
 }
 
-function getCursorWhereClause<T extends object>(
+/**
+ * Looks up the cursor of a node by its id, for clients that know an id (from
+ * a URL, say) but not a cursor. The cursor is the one `paginate` gives the
+ * node's edge for the same query, sort keys and options, so it can be used as
+ * `after` or `before` with them.
+ *
+ * @param query The query to paginate
+ * @param id The id of the node, or a map of the key properties when the
+ * primary key has several columns
+ * @param cursorColumn A single column name, or an ordered list of sort keys
+ * each with its own direction. Defaults to the primary key of the entity
+ * @param options Options that change how rows are ordered, and how cursors
+ * are built, along with whether the sort order is reversed
+ * @returns The cursor of the node
+ * @throws NodeNotFoundError when no node of the query has the id
+ */
+export async function getCursorForId<T extends object>(
   query: SelectQueryBuilder<T>,
-  cursor: Cursor,
-  columnId: string,
+  id: unknown,
+  cursorColumn?: string | SortKey[],
+  options: PaginateOptions & Pick<PaginationArgs, 'reverse'> = {},
+): Promise<string> {
+  const sortColumns = getSortColumns(
+    query,
+    cursorColumn,
+    options.reverse,
+    options.primaryKey,
+  );
+  const fingerprint = getQueryFingerprint(query, sortColumns);
+  const { values } = await findNodeById(query, id, sortColumns, options);
+
+  return encodeCursor(values, sortColumns, { fingerprint }, options);
+}
+
+/**
+ * Pins the query to a snapshot of the list: the rows whose snapshot column is
+ * at most a high-watermark. The watermark is the one carried by the cursor of
+ * an earlier page of the snapshot, or else the greatest value of the column
+ * at issue time.
+ *
+ * @returns The watermark, which is null when the list is empty, and whether
+ * rows newer than the snapshot exist
+ */
+async function takeSnapshot<T extends object>(
+  query: SelectQueryBuilder<T>,
+  totalCountQuery: SelectQueryBuilder<T>,
   paginationArgs: PaginationArgs,
-): ObjectLiteral {
-  const offsetId = cursor.decode();
+  sortColumns: SortColumn[],
+  fingerprint: string,
+  options: PaginateOptions,
+): Promise<Snapshot> {
+  const column = getSortColumns(
+    query,
+    options.snapshotColumn as string,
+  )[0] as SortColumn;
+  if (column.selectAlias) {
+    throw new Error('Cannot take a snapshot by an expression');
+  }
+  if (column.nullable) {
+    throw new Error(
+      `Cannot take a snapshot by the nullable column "${column.path}"`,
+    );
+  }
 
-  let primaryColumnOffset: string | null = null;
-  let secondaryColumnOffset: string | null = null;
-  if (columnId === 'id') {
-    primaryColumnOffset = offsetId;
-  } else {
-    primaryColumnOffset = offsetId.split(multiColumnDelimiter)[0] ?? null;
-    secondaryColumnOffset = offsetId.split(multiColumnDelimiter)[1] ?? null;
+  const cursor =
+    paginationArgs.after || paginationArgs.before || paginationArgs.around;
+  const watermark =
+    (cursor &&
+      decodeCursorPayload(cursor, sortColumns, { fingerprint }, options)
+        ?.watermark) ??
+    (await getHighWatermark(totalCountQuery, column));
+  if (watermark === null) {
+    return { watermark, hasNewerRecords: false };
+  }
+
+  const parameters = { snapshotWatermark: watermark };
+  const newerQuery = withoutPaging(totalCountQuery.clone());
+  andWhere(newerQuery, `${column.path} > :snapshotWatermark`, parameters);
+  for (const snapshotQuery of [query, totalCountQuery]) {
+    andWhere(snapshotQuery, `${column.path} <= :snapshotWatermark`, parameters);
   }
 
-  const whereClause: ObjectLiteral = {};
+  return { watermark, hasNewerRecords: newerQuery.getExists() };
+}
 
-  let findOperator: typeof LessThan | typeof MoreThan;
+async function getHighWatermark<T extends object>(
+  query: SelectQueryBuilder<T>,
+  column: SortColumn,
+): Promise<unknown> {
+  // Read as text where a Date would drop the microseconds of a timestamp
+  const maxQuery = withoutPaging(query.clone())
+    .select(
+      column.textAlias
+        ? `CAST(MAX(${column.path}) AS text)`
+        : `MAX(${column.path})`,
+      'watermark',
+    )
+    .groupBy();
+  maxQuery.expressionMap.havings = [];
+  const raw = await maxQuery.getRawOne<{ watermark: unknown }>();
+  return raw?.watermark ?? null;
+}
 
-  if (paginationArgs.first && paginationArgs.after) {
-    findOperator = paginationArgs.reverse ? LessThan : MoreThan;
-  } else if (paginationArgs.last && paginationArgs.before) {
-    findOperator = paginationArgs.reverse ? MoreThan : LessThan;
-  } else {
-    throw new Error('Invalid cursor pagination arguments');
-  }
-
-  const whereExpression = new Brackets((qb) => {
-    qb.where({ [columnId]: findOperator(primaryColumnOffset) });
-    if (columnId !== 'id') {
-      qb.orWhere(
-        new Brackets((qb) => {
-          qb.where({
-            [columnId]: primaryColumnOffset,
-          }).andWhere({
-            id: findOperator(secondaryColumnOffset),
-          });
-        }),
-      );
-    }
-  });
-  if (query.expressionMap.wheres && query.expressionMap.wheres.length) {
-    query.andWhere(whereExpression);
+/**
+ * Fetches a page by its number, using OFFSET. The edges carry the same cursors
+ * as in cursor mode, so a client can continue from any page with `after` or
+ * `before`.
+ */
+async function paginateByPage<T extends object>(
+  query: SelectQueryBuilder<T>,
+  totalCountQuery: SelectQueryBuilder<T>,
+  paginationArgs: PaginationArgs,
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): Promise<IPaginatedType<T>> {
+  const page = paginationArgs.page ?? 1;
+
+  if (
+    isDefined(paginationArgs.first) ||
+    isDefined(paginationArgs.last) ||
+    paginationArgs.after ||
+    paginationArgs.before ||
+    isDefined(paginationArgs.afterId) ||
+    isDefined(paginationArgs.beforeId)
+  ) {
+    throw new Error(
+      'Cannot use "page" or "pageSize" with "first", "last", "after" or "before"',
+    );
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error('"page" must be a positive integer');
+  }
+  const pageSize = getPageSize(paginationArgs.pageSize, 'pageSize', options, 1);
+
+  const offset = (page - 1) * pageSize;
+  const countStrategy = getCountStrategy(options);
+
+  applySortColumns(query, sortColumns);
+
+  const [rows, totalCount] = await Promise.all([
+    fetchNodes(
+      query,
+      sortColumns,
+      countStrategy === 'probe' ? pageSize + 1 : pageSize,
+      offset,
+    ),
+    countStrategy === 'exact'
+      ? countMatching(totalCountQuery, [everyRow]).then(([count]) => count)
+      : null,
+  ]);
+  const result = rows.slice(0, pageSize);
+  const hasMore =
+    countStrategy === 'probe'
+      ? rows.length > pageSize
+      : rows.length === pageSize;
+
+  let counts: PageCounts;
+  if (totalCount !== null) {
+    const countBefore = Math.min(offset, totalCount);
+    const countAfter = Math.max(totalCount - countBefore - result.length, 0);
+    counts = {
+      countBefore,
+      countAfter,
+      hasPreviousPage: countBefore > 0,
+      hasNextPage: countAfter > 0,
+    };
   } else {
-    query.where(whereExpression);
+    counts = {
+      countBefore: null,
+      countAfter: null,
+      hasPreviousPage: page > 1,
+      hasNextPage: hasMore,
+    };
   }
-  return whereClause;
+
+  const edges = getEdges(result, sortColumns, binding, options);
+  setPositions(edges, offset, options);
+  const pageInfo = getPageInfo(edges, counts, {
+    currentPage: page,
+    pageCount: totalCount === null ? null : Math.ceil(totalCount / pageSize),
+  });
+
+  return {
+    edges,
+    pageInfo,
+  };
 }
 
-async function getCounts<T extends object>(
-  result: T[],
-  totalCountQuery: SelectQueryBuilder<T>,
+/**
+ * Fetches a window centered on an anchor: the anchor itself, up to `last`
+ * elements before it and up to `first` elements after it. The anchor is a
+ * cursor, or the id of a node when the primary key is a single column. The
+ * window of a cursor whose node no longer matches the query is centered on
+ * where that node would be.
+ */
+async function paginateAround<T extends object>(
   query: SelectQueryBuilder<T>,
-  columnId: string,
+  totalCountQuery: SelectQueryBuilder<T>,
   paginationArgs: PaginationArgs,
-) {
-  const beforeQuery = totalCountQuery.clone();
-  const afterQuery = totalCountQuery.clone();
-
-  let primaryStartCursorId: unknown = null;
-  let primaryEndCursorId: unknown = null;
-  let secondaryStartCursorId: unknown = null;
-  let secondaryEndCursorId: unknown = null;
-
-  if (result.length > 0) {
-    primaryStartCursorId = (result[0] as IIndexable)[columnId];
-    primaryEndCursorId = (result.slice(-1)[0] as IIndexable)[columnId];
-    if (columnId !== 'id') {
-      secondaryStartCursorId = (result[0] as IIndexable)['id'];
-      secondaryEndCursorId = (result.slice(-1)[0] as IIndexable)['id'];
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): Promise<IPaginatedType<T>> {
+  if (
+    paginationArgs.after ||
+    paginationArgs.before ||
+    isDefined(paginationArgs.afterId) ||
+    isDefined(paginationArgs.beforeId) ||
+    isDefined(paginationArgs.page) ||
+    isDefined(paginationArgs.pageSize)
+  ) {
+    throw new Error(
+      'Cannot use "around" with "after", "before", "page" or "pageSize"',
+    );
+  }
+  const first = getPageSize(paginationArgs.first, 'first', options);
+  const last = getPageSize(paginationArgs.last, 'last', options);
+
+  const anchor = await findAnchor(
+    query,
+    paginationArgs.around as string,
+    sortColumns,
+    binding,
+    options,
+  );
+
+  const countStrategy = getCountStrategy(options);
+  const fetchSide = (position: 'before' | 'after', count: number) => {
+    const sideQuery = query.clone();
+    applySortColumns(
+      sideQuery,
+      position === 'before' ? sortColumns.map(flipSortColumn) : sortColumns,
+    );
+    applyKeysetCondition(
+      sideQuery,
+      getKeysetCondition(sortColumns, anchor.values, position, 'anchor'),
+    );
+    return fetchNodes(
+      sideQuery,
+      sortColumns,
+      countStrategy === 'none' ? count : count + 1,
+    );
+  };
+  const exceeds = (rows: SortedNode<T>[], count: number) =>
+    countStrategy === 'none'
+      ? count > 0 && rows.length >= count
+      : rows.length > count;
+
+  const [rowsBefore, rowsAfter] = await Promise.all([
+    fetchSide('before', last),
+    fetchSide('after', first),
+  ]);
+  const result = [
+    ...rowsBefore.slice(0, last).reverse(),
+    ...(anchor.node ? [anchor.node] : []),
+    ...rowsAfter.slice(0, first),
+  ];
+
+  let countBefore: number | null = null;
+  let countAfter: number | null = null;
+  if (countStrategy === 'exact') {
+    ({ countBefore, countAfter } = await getCounts(
+      result,
+      totalCountQuery,
+      sortColumns,
+      anchor.values,
+      false,
+    ));
+  }
+
+  const edges = getEdges(result, sortColumns, binding, options);
+  setPositions(edges, countBefore, options);
+  const pageInfo = getPageInfo(edges, {
+    countBefore,
+    countAfter,
+    hasPreviousPage: exceeds(rowsBefore, last),
+    hasNextPage: exceeds(rowsAfter, first),
+  });
+
+  return {
+    edges,
+    pageInfo,
+  };
+}
+
+/**
+ * Finds the anchor of a window by its cursor or id, within the rows of the
+ * query.
+ *
+ * @returns The sort values of the anchor, and the anchor node unless a cursor
+ * points to a node that no longer matches the query
+ */
+async function findAnchor<T extends object>(
+  query: SelectQueryBuilder<T>,
+  around: string,
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): Promise<{ values: unknown[]; node: SortedNode<T> | null }> {
+  const cursorValues =
+    decodeCursorPayload(around, sortColumns, binding, options)?.values ?? null;
+  if (!cursorValues) {
+    const node = await findNodeById(query, around, sortColumns, options);
+    return { values: node.values, node };
+  }
+
+  const keyValues = getPrimaryKeyColumns(query, options.primaryKey).map(
+    (keyColumn) =>
+      cursorValues[
+        sortColumns.findIndex((column) => column.path === keyColumn.path)
+      ],
+  );
+  const node = await findNode(query, keyValues, sortColumns, options);
+  return { values: node?.values ?? cursorValues, node: node ?? null };
+}
+
+/**
+ * Decodes a cursor that may be an id instead, such as the anchor of a window.
+ * Legacy `value|id` cursors cannot be told apart from ids, so they are read as
+ * ids.
+ *
+ * @returns The payload of the cursor, or null when it is not a cursor, in
+ * which case it is an id
+ */
+function decodeCursorPayload(
+  encodedCursor: string,
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): CursorPayload | null {
+  const cursor = new Cursor(
+    encodedCursor,
+    sortColumns[0]?.path ?? '',
+    options.cursor,
+  );
+  let decoded: string;
+  try {
+    decoded = cursor.decode();
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return null;
     }
+    throw error;
+  }
+  if (!isCursorPayload(decoded)) {
+    return null;
   }
 
-  let findOperatorBefore: typeof LessThan | typeof MoreThan;
-  let findOperatorAfter: typeof LessThan | typeof MoreThan;
+  return cursor.decodePayload(
+    sortColumns.map((column) => column.path),
+    binding.fingerprint,
+  );
+}
 
-  if (paginationArgs.reverse) {
-    findOperatorBefore = MoreThan;
-    findOperatorAfter = LessThan;
+/**
+ * Finds a node of the query by its id, which is a map of the key properties
+ * when the primary key has several columns.
+ *
+ * @throws NodeNotFoundError when no node of the query has the id
+ */
+async function findNodeById<T extends object>(
+  query: SelectQueryBuilder<T>,
+  id: unknown,
+  sortColumns: SortColumn[],
+  options: PaginateOptions,
+): Promise<SortedNode<T>> {
+  const keyColumns = getPrimaryKeyColumns(query, options.primaryKey);
+  let keyValues: unknown[];
+  if (keyColumns.length === 1) {
+    keyValues = [id];
+  } else if (typeof id === 'object' && id !== null) {
+    keyValues = keyColumns.map(
+      (column) => (id as IIndexable<unknown>)[column.propertyPath],
+    );
   } else {
-    findOperatorBefore = LessThan;
-    findOperatorAfter = MoreThan;
-  }
-
-  const whereExpressionBefore = new Brackets((qb) => {
-    qb.where({ [columnId]: findOperatorBefore(primaryStartCursorId) });
-    if (columnId !== 'id') {
-      qb.orWhere(
-        new Brackets((qb) => {
-          qb.where({
-            [columnId]: primaryStartCursorId,
-          }).andWhere({
-            id: findOperatorBefore(secondaryStartCursorId),
-          });
-        }),
-      );
-    }
+    throw new Error(
+      'The id must be a map of the key properties when the primary key has several columns',
+    );
+  }
+
+  const node = await findNode(query, keyValues, sortColumns, options);
+  if (!node) {
+    throw new NodeNotFoundError(id);
+  }
+  return node;
+}
+
+/**
+ * Finds the node of the query with the given primary key values, along with
+ * its sort values.
+ */
+async function findNode<T extends object>(
+  query: SelectQueryBuilder<T>,
+  keyValues: unknown[],
+  sortColumns: SortColumn[],
+  options: PaginateOptions,
+): Promise<SortedNode<T> | undefined> {
+  const nodeQuery = withoutPaging(query.clone());
+  applySortColumns(nodeQuery, sortColumns);
+  getPrimaryKeyColumns(query, options.primaryKey).forEach((column, index) => {
+    andWhere(nodeQuery, `${column.path} = :nodeKey${index}`, {
+      [`nodeKey${index}`]: keyValues[index],
+    });
   });
+  const [node] = await fetchNodes(nodeQuery, sortColumns, 1);
+  return node;
+}
 
-  const whereExpressionAfter = new Brackets((qb) => {
-    qb.where({ [columnId]: findOperatorAfter(primaryEndCursorId) });
-    if (columnId !== 'id') {
-      qb.orWhere(
-        new Brackets((qb) => {
-          qb.where({
-            [columnId]: primaryEndCursorId,
-          }).andWhere({
-            id: findOperatorAfter(secondaryEndCursorId),
-          });
-        }),
-      );
+/**
+ * Resolves a requested page size against the default and maximum page sizes.
+ *
+ * @param requested The requested page size, if any
+ * @param argument The name of the argument the page size was requested with
+ * @param options The options of the `paginate` call
+ * @param minimum The smallest page size that may be requested
+ * @returns The number of elements to fetch
+ */
+function getPageSize(
+  requested: number | null | undefined,
+  argument: string,
+  options: PaginateOptions,
+  minimum = 0,
+): number {
+  const { defaultPageSize, maxPageSize, pageSizeLimitMode } =
+    getPageSizeOptions(options);
+
+  if (!isDefined(requested)) {
+    return Math.min(defaultPageSize, maxPageSize ?? Infinity);
+  }
+  if (!Number.isInteger(requested) || requested < minimum) {
+    throw new Error(
+      `"${argument}" must be a ${minimum > 0 ? 'positive' : 'non-negative'} integer`,
+    );
+  }
+  if (maxPageSize !== undefined && requested > maxPageSize) {
+    if (pageSizeLimitMode === 'clamp') {
+      return maxPageSize;
     }
-  });
+    throw new PageSizeExceededError(argument, requested, maxPageSize);
+  }
+
+  return requested;
+}
+
+function isDefined<V>(value: V | null | undefined): value is V {
+  return value !== undefined && value !== null;
+}
+
+/**
+ * Resolves the `selection` count strategy to `exact` or `probe`, depending on
+ * whether a count field of `PageInfo` is selected in the GraphQL query.
+ */
+function getCountStrategy(
+  options: PaginateOptions,
+): Exclude<CountStrategy, 'selection'> {
+  const countStrategy = options.countStrategy ?? 'exact';
+  if (countStrategy !== 'selection') {
+    return countStrategy;
+  }
+  if (!options.info) {
+    throw new Error('The "selection" count strategy requires the resolve info');
+  }
+  return isFieldSelected(options.info, ['pageInfo'], countFields) ||
+    (options.positions &&
+      isFieldSelected(options.info, ['edges'], ['position']))
+    ? 'exact'
+    : 'probe';
+}
 
-  if (beforeQuery.expressionMap.wheres?.length > 0) {
-    beforeQuery.andWhere(whereExpressionBefore);
+function andWhere<T extends object>(
+  query: SelectQueryBuilder<T>,
+  where: string,
+  parameters: ObjectLiteral,
+) {
+  if (query.expressionMap.wheres && query.expressionMap.wheres.length) {
+    query.andWhere(where, parameters);
   } else {
-    beforeQuery.where(whereExpressionBefore);
+    query.where(where, parameters);
   }
+}
 
-  if (afterQuery.expressionMap.wheres?.length > 0) {
-    afterQuery.andWhere(whereExpressionAfter);
+function andHaving<T extends object>(
+  query: SelectQueryBuilder<T>,
+  having: string,
+  parameters: ObjectLiteral,
+) {
+  if (query.expressionMap.havings.length) {
+    query.andHaving(having, parameters);
   } else {
-    afterQuery.where(whereExpressionAfter);
+    query.having(having, parameters);
   }
+}
+
+function decodeCursor(
+  encodedCursor: string,
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): unknown[] {
+  return new Cursor(
+    encodedCursor,
+    sortColumns[0]?.path ?? '',
+    options.cursor,
+  ).decodePayload(
+    sortColumns.map((column) => column.path),
+    binding.fingerprint,
+  ).values;
+}
 
-  const countBefore = await beforeQuery.getCount();
-  const countAfter = await afterQuery.getCount();
+/**
+ * Adds a keyset condition to the query, in HAVING when the query is grouped,
+ * as the sort values may then be aggregates.
+ */
+function applyKeysetCondition<T extends object>(
+  query: SelectQueryBuilder<T>,
+  { where, parameters }: KeysetCondition,
+): void {
+  if (isGrouped(query)) {
+    andHaving(query, where, parameters);
+  } else {
+    andWhere(query, where, parameters);
+  }
+}
+
+async function getCounts<T extends object>(
+  result: SortedNode<T>[],
+  totalCountQuery: SelectQueryBuilder<T>,
+  sortColumns: SortColumn[],
+  cursorValues: unknown[] | null,
+  backward: boolean,
+): Promise<{ countBefore: number; countAfter: number }> {
+  if (result.length === 0) {
+    return getEmptyPageCounts(
+      totalCountQuery,
+      sortColumns,
+      cursorValues,
+      backward,
+    );
+  }
+
+  const [countBefore, countAfter] = await countMatching(totalCountQuery, [
+    getKeysetCondition(
+      sortColumns,
+      (result[0] as SortedNode<T>).values,
+      'before',
+      'cursorStart',
+    ),
+    getKeysetCondition(
+      sortColumns,
+      (result.at(-1) as SortedNode<T>).values,
+      'after',
+      'cursorEnd',
+    ),
+  ]);
 
   return {
     countBefore,
@@ -258,43 +866,345 @@ async function getCounts<T extends object>(
   };
 }
 
-function getEdges<T>(result: T[], columnId: string): IEdgeType<T>[] {
-  return result.map((value) => {
-    let cursor: string | null = null;
-    if (columnId !== 'id') {
-      const id = (value as IIndexable)['id'];
-      const nonIdColumn = (value as IIndexable)[columnId];
-
-      cursor = new Cursor(
-        `${nonIdColumn}${multiColumnDelimiter}${id}`,
-        columnId,
-      ).encode();
-      // }
-    } else {
-      const id = (value as IIndexable)[columnId];
-      cursor = new Cursor(`${id}`, columnId).encode();
+/**
+ * Counts the rows on either side of an empty page, which sits at the cursor,
+ * or at the start (or end, when paginating backward) of the list when there
+ * is no cursor.
+ */
+async function getEmptyPageCounts<T extends object>(
+  totalCountQuery: SelectQueryBuilder<T>,
+  sortColumns: SortColumn[],
+  cursorValues: unknown[] | null,
+  backward: boolean,
+): Promise<{ countBefore: number; countAfter: number }> {
+  const conditions: KeysetCondition[] = [everyRow];
+  if (cursorValues) {
+    conditions.push(
+      getKeysetCondition(
+        sortColumns,
+        cursorValues,
+        backward ? 'before' : 'after',
+        'cursorOffset',
+      ),
+    );
+  }
+
+  const [totalCount, countInRange = totalCount] = await countMatching(
+    totalCountQuery,
+    conditions,
+  );
+  const countOutOfRange = totalCount - countInRange;
+
+  return backward
+    ? { countBefore: countInRange, countAfter: countOutOfRange }
+    : { countBefore: countOutOfRange, countAfter: countInRange };
+}
+
+/**
+ * Counts the rows of the query that match each condition. The counts are read
+ * from a single statement of conditional aggregates where possible, and from
+ * parallel COUNT queries otherwise.
+ */
+async function countMatching<T extends object>(
+  query: SelectQueryBuilder<T>,
+  conditions: KeysetCondition[],
+): Promise<number[]> {
+  if (isGrouped(query)) {
+    return Promise.all(
+      conditions.map(async ({ where, parameters }) => {
+        const groupQuery = withoutPaging(query.clone());
+        andHaving(groupQuery, where, parameters);
+        // Runs on the query runner of the query, inside its transaction
+        const raw = await query
+          .createQueryBuilder()
+          .select('COUNT(*)', 'count')
+          .from(`(${groupQuery.getQuery()})`, 'grouped')
+          .setParameters(groupQuery.getParameters())
+          .getRawOne<{ count: unknown }>();
+        return Number(raw?.count ?? 0);
+      }),
+    );
+  }
+
+  if (supportsSingleCountQuery(query)) {
+    const countQuery = withoutPaging(query.clone()).select([]);
+    conditions.forEach(({ where, parameters }, index) => {
+      countQuery
+        .addSelect(`SUM(CASE WHEN ${where} THEN 1 ELSE 0 END)`, `count${index}`)
+        .setParameters(parameters);
+    });
+    const raw = await countQuery.getRawOne<Record<string, unknown>>();
+
+    return conditions.map((_, index) => Number(raw?.[`count${index}`] ?? 0));
+  }
+
+  return Promise.all(
+    conditions.map(({ where, parameters }) => {
+      const countQuery = query.clone();
+      andWhere(countQuery, where, parameters);
+      return countQuery.getCount();
+    }),
+  );
+}
+
+/**
+ * Whether counts can be read from a single statement of conditional
+ * aggregates over the filtered query. Joins, grouping and
+ * DISTINCT can yield several rows per entity, which only the distinct
+ * COUNT issued by `getCount` handles, so those queries count separately.
+ */
+function supportsSingleCountQuery<T extends object>(
+  query: SelectQueryBuilder<T>,
+): boolean {
+  const { expressionMap } = query;
+
+  return (
+    getSqlDialect(query.connection) !== null &&
+    expressionMap.joinAttributes.length === 0 &&
+    expressionMap.groupBys.length === 0 &&
+    expressionMap.havings.length === 0 &&
+    !expressionMap.selectDistinct
+  );
+}
+
+/**
+ * Fetches the nodes of a page along with their sort values. The values of
+ * sort expressions are not properties of the hydrated entities, and Postgres
+ * timestamps lose their microseconds once hydrated, so those are read from the
+ * raw results, which then need one row per node.
+ */
+async function fetchNodes<T extends object>(
+  query: SelectQueryBuilder<T>,
+  sortColumns: SortColumn[],
+  count: number,
+  offset = 0,
+): Promise<SortedNode<T>[]> {
+  if (count === 0) {
+    return [];
+  }
+
+  if (!sortColumns.some((column) => getRawAlias(column))) {
+    const nodes = await query.skip(offset).take(count).getMany();
+    return nodes.map((node) => ({
+      node,
+      values: sortColumns.map((column) => getNodeValue(node, column)),
+    }));
+  }
+
+  if (!isGrouped(query) && hasToManyJoin(query)) {
+    return fetchDistinctNodes(query, sortColumns, count, offset);
+  }
+
+  const { entities, raw } = await query
+    .offset(offset)
+    .limit(count)
+    .getRawAndEntities<IIndexable<unknown>>();
+  return entities.map((node, index) => ({
+    node,
+    values: sortColumns.map((column) => {
+      const rawAlias = getRawAlias(column);
+      return rawAlias
+        ? (raw[index]?.[rawAlias] ?? null)
+        : getNodeValue(node, column);
+    }),
+  }));
+}
+
+/**
+ * Fetches the nodes of a page when to-many joins repeat each node over several
+ * rows, so that LIMIT and OFFSET cannot apply to the rows themselves. The keys
+ * and sort values of the page are read first, one row per node, and the nodes
+ * are then loaded by their keys, as TypeORM does for `take` with joins.
+ */
+async function fetchDistinctNodes<T extends object>(
+  query: SelectQueryBuilder<T>,
+  sortColumns: SortColumn[],
+  count: number,
+  offset: number,
+): Promise<SortedNode<T>[]> {
+  const { metadata } = query.expressionMap.mainAlias as Alias;
+  const { driver } = query.connection;
+
+  const keyQuery = query.clone().select([]).distinct(true);
+  metadata.primaryColumns.forEach((column, index) => {
+    keyQuery.addSelect(`${query.alias}.${column.propertyPath}`, `key${index}`);
+  });
+  sortColumns.forEach((column, index) => {
+    keyQuery.addSelect(column.path, `sort${index}`);
+    if (column.textAlias) {
+      keyQuery.addSelect(`CAST(${column.path} AS text)`, `text${index}`);
     }
+  });
+  const rows = await keyQuery
+    .offset(offset)
+    .limit(count)
+    .getRawMany<IIndexable<unknown>>();
+  if (rows.length === 0) {
+    return [];
+  }
 
-    return {
-      node: value,
+  const ids = rows.map((row) =>
+    metadata.primaryColumns.map((column, index) =>
+      driver.prepareHydratedValue(row[`key${index}`], column),
+    ),
+  );
+  const nodes = await withoutPaging(query.clone())
+    .andWhereInIds(
+      ids.map((id) =>
+        metadata.primaryColumns.reduce<ObjectLiteral>(
+          (idMap, column, index) =>
+            Object.assign(idMap, column.createValueMap(id[index])),
+          {},
+        ),
+      ),
+    )
+    .getMany();
+  const nodesByKey = new Map(
+    nodes.map((node) => [
+      getKey(
+        metadata.primaryColumns.map((column) => column.getEntityValue(node)),
+      ),
+      node,
+    ]),
+  );
+
+  return rows.flatMap((row, rowIndex) => {
+    const node = nodesByKey.get(getKey(ids[rowIndex] as unknown[]));
+    if (!node) {
+      return [];
+    }
+    return [
+      {
+        node,
+        values: sortColumns.map((column, index) =>
+          column.selectAlias
+            ? (row[`sort${index}`] ?? null)
+            : column.textAlias
+              ? (row[`text${index}`] ?? null)
+              : getNodeValue(node, column),
+        ),
+      },
+    ];
+  });
+}
+
+function getKey(values: unknown[]): string {
+  return JSON.stringify(values.map(String));
+}
+
+function hasToManyJoin<T extends object>(
+  query: SelectQueryBuilder<T>,
+): boolean {
+  return query.expressionMap.joinAttributes.some((join) => join.isMany);
+}
+
+function getRawAlias(column: SortColumn): string | undefined {
+  return column.selectAlias ?? column.textAlias;
+}
+
+function getNodeValue<T>(node: T, column: SortColumn): unknown {
+  return column.nodePath.reduce<unknown>(
+    (value, propertyName) =>
+      value === null || value === undefined
+        ? null
+        : (value as IIndexable<unknown>)[propertyName],
+    node,
+  );
+}
+
+function withoutPaging<T extends object>(
+  query: SelectQueryBuilder<T>,
+): SelectQueryBuilder<T> {
+  return query
+    .orderBy()
+    .offset(undefined)
+    .limit(undefined)
+    .skip(undefined)
+    .take(undefined);
+}
+
+function isGrouped<T extends object>(query: SelectQueryBuilder<T>): boolean {
+  return query.expressionMap.groupBys.length > 0;
+}
+
+function getEdges<T>(
+  result: SortedNode<T>[],
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): IEdgeType<T>[] {
+  const hasExpressions = sortColumns.some((column) => column.selectAlias);
+
+  return result.map(({ node, values }) => {
+    const cursor = encodeCursor(values, sortColumns, binding, options);
+
+    const edge: IEdgeType<T> = {
+      node,
       cursor: cursor,
     };
+    if (hasExpressions) {
+      edge.sortValues = Object.fromEntries(
+        sortColumns.flatMap((column, index) =>
+          column.selectAlias ? [[column.selectAlias, values[index]]] : [],
+        ),
+      );
+    }
+    return edge;
   });
 }
 
+/**
+ * Sets the 1-based position of each edge in the whole list, when positions
+ * are requested and the number of elements before the page is known.
+ */
+function setPositions<T>(
+  edges: IEdgeType<T>[],
+  countBefore: number | null,
+  options: PaginateOptions,
+): void {
+  if (!options.positions || countBefore === null) {
+    return;
+  }
+  edges.forEach((edge, index) => {
+    edge.position = countBefore + index + 1;
+  });
+}
+
+function encodeCursor(
+  values: unknown[],
+  sortColumns: SortColumn[],
+  binding: CursorBinding,
+  options: PaginateOptions,
+): string {
+  return Cursor.fromPayload(
+    {
+      columns: sortColumns.map((column) => column.path),
+      values,
+      fingerprint: binding.fingerprint,
+      watermark: binding.watermark,
+    },
+    options.cursor,
+  ).encode();
+}
+
 function getPageInfo<T>(
   edges: IEdgeType<T>[],
-  countBefore: number,
-  countAfter: number,
+  counts: PageCounts,
+  pagePosition: PagePosition = { currentPage: null, pageCount: null },
 ): PageInfo {
+  const { countBefore, countAfter, hasPreviousPage, hasNextPage } = counts;
   const pageInfo = new PageInfo({
     startCursor: edges[0]?.cursor ?? undefined,
     endCursor: edges.at(-1)?.cursor ?? undefined,
-    hasNextPage: countAfter > 0,
-    hasPreviousPage: countBefore > 0,
-    totalCount: countAfter + countBefore + edges.length,
+    hasNextPage,
+    hasPreviousPage,
+    totalCount:
+      countBefore === null || countAfter === null
+        ? null
+        : countAfter + countBefore + edges.length,
     countBefore,
     countAfter,
+    ...pagePosition,
   });
 
   return pageInfo;
@@ -0,0 +1,114 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Test } from '@nestjs/testing';
+import {
+  Field,
+  Float,
+  GraphQLSchemaBuilderModule,
+  GraphQLSchemaFactory,
+  ID,
+  ObjectType,
+  Query,
+  Resolver,
+} from '@nestjs/graphql';
+import { GraphQLObjectType, GraphQLSchema, getNamedType } from 'graphql';
+import { Paginated } from './paginated';
+
+@ObjectType()
+class Product {
+  @Field(() => ID)
+  id!: string;
+}
+
+@ObjectType({ isAbstract: true })
+class SearchEdgeFields {
+  @Field(() => Float)
+  score!: number;
+}
+
+@ObjectType()
+class ProductConnection extends Paginated(Product, 'Product') {}
+
+@ObjectType()
+class ProductSearchConnection extends Paginated(Product, 'ProductSearch', {
+  edgeType: SearchEdgeFields,
+}) {}
+
+@Resolver(() => Product)
+class ProductResolver {
+  @Query(() => ProductConnection)
+  products(): ProductConnection {
+    return { edges: [], pageInfo: {} } as unknown as ProductConnection;
+  }
+
+  @Query(() => ProductSearchConnection)
+  searchProducts(): ProductSearchConnection {
+    return { edges: [], pageInfo: {} } as unknown as ProductSearchConnection;
+  }
+}
+
+describe('Paginated', () => {
+  let schema: GraphQLSchema;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [GraphQLSchemaBuilderModule],
+    }).compile();
+    schema = await moduleRef
+      .get(GraphQLSchemaFactory)
+      .create([ProductResolver]);
+  });
+
+  function getEdgeType(connection: string): GraphQLObjectType {
+    const connectionType = schema.getType(connection) as GraphQLObjectType;
+    const edges = connectionType.getFields()['edges'];
+    return getNamedType(edges?.type) as GraphQLObjectType;
+  }
+
+  it('should expose the cursor, node and position of each edge', () => {
+    const edgeType = getEdgeType('ProductConnection');
+
+    expect(edgeType.name).toBe('ProductEdge');
+    expect(Object.keys(edgeType.getFields())).toEqual([
+      'cursor',
+      'node',
+      'position',
+    ]);
+    expect(String(edgeType.getFields()['position']?.type)).toBe('Int');
+  });
+
+  it('should extend the edge type with extra fields', () => {
+    const edgeType = getEdgeType('ProductSearchConnection');
+
+    expect(edgeType.name).toBe('ProductSearchEdge');
+    expect(Object.keys(edgeType.getFields()).sort()).toEqual([
+      'cursor',
+      'node',
+      'position',
+      'score',
+    ]);
+    expect(String(edgeType.getFields()['score']?.type)).toBe('Float!');
+  });
+});
@@ -23,20 +23,45 @@
  */
 
 import { Type } from '@nestjs/common';
-import { Field, ObjectType } from '@nestjs/graphql';
-import { IsDefined, IsObject, IsString } from 'class-validator';
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import {
+  IsDefined,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 import { PageInfo } from './page-info';
 
 export interface IEdgeType<T> {
   cursor: string;
   node: T;
+  /**
+   * The values of the sort expressions of the node, by the name they are
+   * selected as. Only set when the list is sorted by sort expressions.
+   */
+  sortValues?: Record<string, unknown>;
+  /**
+   * The 1-based position of the node in the whole list. Only set when
+   * `paginate` is asked for positions and knows the count before the page.
+   */
+  position?: number;
 }
 
-export interface IPaginatedType<T> {
-  edges: IEdgeType<T>[];
+export interface IPaginatedType<T, E extends object = object> {
+  edges: (IEdgeType<T> & E)[];
   pageInfo: PageInfo;
 }
 
+export interface PaginatedOptions<E extends object> {
+  /**
+   * A class of extra edge fields, such as a search score or a distance, that
+   * the edge type extends. It must be an abstract object type, declared with
+   * `@ObjectType({ isAbstract: true })`.
+   */
+  edgeType?: Type<E>;
+}
+
 /**
  * This is a generic type that can be used to create a paginated type for a
  * given class. It is used to create a paginated type for a given class.
@@ -45,14 +70,18 @@ export interface IPaginatedType<T> {
  *
  * @param classRef The class reference
  * @param name The name of the paginated type
+ * @param options Options of the paginated type, such as extra edge fields
  * @returns The paginated type
  */
-export function Paginated<T>(
+export function Paginated<T, E extends object = object>(
   classRef: Type<T>,
   name: string,
-): Type<IPaginatedType<T>> {
+  options: PaginatedOptions<E> = {},
+): Type<IPaginatedType<T, E>> {
+  const EdgeFields: Type<object> = options.edgeType ?? class {};
+
   @ObjectType(`${name}Edge`, { isAbstract: true })
-  abstract class EdgeType<T> {
+  abstract class EdgeType<T> extends EdgeFields {
     @Field(() => String)
     @IsString()
     @IsDefined()
@@ -62,6 +91,14 @@ export function Paginated<T>(
     @IsObject()
     @IsDefined()
     node!: T;
+
+    @Field(() => Int, {
+      nullable: true,
+      description: 'The 1-based position of the node in the whole list.',
+    })
+    @IsOptional()
+    @IsInt()
+    position?: number;
   }
 
   @ObjectType({ isAbstract: true })
@@ -76,5 +113,5 @@ export function Paginated<T>(
     @IsObject()
     pageInfo!: PageInfo;
   }
-  return PaginatedType as Type<IPaginatedType<T>>;
+  return PaginatedType as Type<IPaginatedType<T, E>>;
 }
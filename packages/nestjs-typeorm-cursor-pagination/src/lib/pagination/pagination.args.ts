@@ -22,7 +22,7 @@
  * SOFTWARE.
  */
 
-import { ArgsType, Field, Int } from '@nestjs/graphql';
+import { ArgsType, Field, ID, Int } from '@nestjs/graphql';
 import { IsBoolean, IsNumber, IsOptional, IsString } from 'class-validator';
 
 @ArgsType()
@@ -43,6 +43,33 @@ export class PaginationArgs {
   @IsOptional()
   before?: string;
 
+  @Field(() => ID, {
+    nullable: true,
+    description:
+      'Returns the elements that come after the node with the specified id.',
+  })
+  @IsString()
+  @IsOptional()
+  afterId?: string;
+
+  @Field(() => ID, {
+    nullable: true,
+    description:
+      'Returns the elements that come before the node with the specified id.',
+  })
+  @IsString()
+  @IsOptional()
+  beforeId?: string;
+
+  @Field(() => String, {
+    nullable: true,
+    description:
+      'Returns the element with this cursor or id, along with up to `last` elements before it and up to `first` elements after it.',
+  })
+  @IsString()
+  @IsOptional()
+  around?: string;
+
   @Field(() => Int, {
     nullable: true,
     description: 'Returns up to the first `n` elements from the list.',
@@ -67,4 +94,21 @@ export class PaginationArgs {
   @IsBoolean()
   @IsOptional()
   reverse?: boolean;
+
+  @Field(() => Int, {
+    nullable: true,
+    description:
+      'Returns the page with this 1-based number. Cannot be combined with the cursor arguments.',
+  })
+  @IsNumber()
+  @IsOptional()
+  page?: number;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: 'The number of elements per page when paginating by page.',
+  })
+  @IsNumber()
+  @IsOptional()
+  pageSize?: number;
 }
@@ -0,0 +1,74 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Thrown by `paginate` when an `after` or `before` cursor cannot be used,
+ * because it is malformed, corrupted or was not signed with the configured
+ * secret.
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Thrown by `paginate` when a cursor was issued for a query with other sort
+ * columns, sort directions or filters than the query it is used with.
+ */
+export class CursorMismatchError extends InvalidCursorError {
+  constructor(
+    message = 'Cursor was issued for a different sort order or filter set',
+  ) {
+    super(message);
+    this.name = 'CursorMismatchError';
+  }
+}
+
+/**
+ * Thrown by `paginate` when a requested page size is above the configured
+ * maximum and the page size limit mode is `error`.
+ */
+export class PageSizeExceededError extends Error {
+  constructor(
+    readonly argument: string,
+    readonly pageSize: number,
+    readonly maxPageSize: number,
+  ) {
+    super(`"${argument}" must not exceed ${maxPageSize}, got ${pageSize}`);
+    this.name = 'PageSizeExceededError';
+  }
+}
+
+/**
+ * Thrown when a node id given to look up a cursor (`afterId`, `beforeId` or
+ * `around`) does not belong to a node of the filtered query.
+ */
+export class NodeNotFoundError extends Error {
+  constructor(readonly id: unknown) {
+    super(`No node was found with the id ${JSON.stringify(id) ?? String(id)}`);
+    this.name = 'NodeNotFoundError';
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { configurePagination, getPageSizeOptions } from './pagination.options';
+
+describe('configurePagination', () => {
+  afterEach(() => {
+    configurePagination({});
+  });
+
+  it('should apply the configured defaults', () => {
+    configurePagination({ defaultPageSize: 10, maxPageSize: 50 });
+
+    expect(getPageSizeOptions({})).toEqual({
+      defaultPageSize: 10,
+      maxPageSize: 50,
+      pageSizeLimitMode: 'error',
+    });
+  });
+
+  it.each([0, -5, 2.5, Number.NaN])(
+    'should reject a default page size of %s',
+    (defaultPageSize) => {
+      expect(() => configurePagination({ defaultPageSize })).toThrow(
+        '"defaultPageSize" must be a positive integer',
+      );
+    },
+  );
+
+  it('should reject a maximum page size that is not a positive integer', () => {
+    expect(() => configurePagination({ maxPageSize: 0 })).toThrow(
+      '"maxPageSize" must be a positive integer, got 0',
+    );
+  });
+
+  it('should reject a default page size above the maximum page size', () => {
+    expect(() =>
+      configurePagination({ defaultPageSize: 100, maxPageSize: 50 }),
+    ).toThrow('"defaultPageSize" must not exceed "maxPageSize" (50), got 100');
+  });
+
+  it('should reject an unknown page size limit mode', () => {
+    expect(() =>
+      configurePagination({
+        pageSizeLimitMode: 'truncate' as unknown as 'clamp',
+      }),
+    ).toThrow(`"pageSizeLimitMode" must be 'error' or 'clamp'`);
+  });
+
+  it('should keep the previous defaults when the options are invalid', () => {
+    configurePagination({ defaultPageSize: 10 });
+
+    expect(() => configurePagination({ defaultPageSize: -1 })).toThrow();
+    expect(getPageSizeOptions({}).defaultPageSize).toBe(10);
+  });
+});
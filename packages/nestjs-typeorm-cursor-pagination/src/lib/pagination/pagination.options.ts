@@ -0,0 +1,224 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type { GraphQLResolveInfo } from 'graphql';
+import { CursorOptions } from './cursor';
+import { SortKey } from './sort-key';
+
+/**
+ * How `paginate` works out `hasNextPage`, `hasPreviousPage` and the counts of
+ * `PageInfo`:
+ * - `exact`: counts the rows before and after the page (the total in page
+ *   mode)
+ * - `probe`: fetches one extra row to tell whether there is a next (or
+ *   previous) page, without counting
+ * - `none`: runs no extra query; a full page is assumed to have a next page
+ * - `selection`: counts only when `totalCount`, `countBefore`, `countAfter`
+ *   or `pageCount` is selected in the GraphQL query (see `info`), and probes
+ *   otherwise
+ */
+export type CountStrategy = 'exact' | 'probe' | 'none' | 'selection';
+
+/**
+ * The page size used when none is requested, and the largest page size
+ * that may be requested.
+ */
+export interface PageSizeOptions {
+  /**
+   * The page size used when `first`, `last` or `pageSize` is not given
+   * @default 25
+   */
+  defaultPageSize?: number;
+
+  /**
+   * The largest page size that may be requested. Unlimited when not set.
+   */
+  maxPageSize?: number;
+
+  /**
+   * What to do when a page size above `maxPageSize` is requested: throw a
+   * `PageSizeExceededError`, or fetch `maxPageSize` elements instead
+   * @default 'error'
+   */
+  pageSizeLimitMode?: 'error' | 'clamp';
+}
+
+/**
+ * Options that change how `paginate` orders rows, and builds and reads
+ * cursors.
+ */
+export interface PaginateOptions extends PageSizeOptions {
+  /**
+   * How cursors are signed and encrypted. When a secret is set, every
+   * `after` and `before` cursor is verified before it is used.
+   */
+  cursor?: CursorOptions;
+
+  /**
+   * The property name(s) of the unique key of the paginated entity, used as
+   * the tiebreaker of the sort order and in every cursor. Defaults to the
+   * primary columns of the entity.
+   * @example 'productCode'
+   * @example ['tenantId', 'sku']
+   */
+  primaryKey?: string | string[];
+
+  /**
+   * How the page info flags and counts are worked out
+   * @default 'exact'
+   */
+  countStrategy?: CountStrategy;
+
+  /**
+   * The resolve info of the connection field, required by the `selection`
+   * count strategy
+   */
+  info?: GraphQLResolveInfo;
+
+  /**
+   * Whether to set the 1-based `position` of each edge in the whole list. In
+   * cursor mode, positions are derived from `countBefore`, so they are only
+   * set when counting: with the `exact` count strategy, or with `selection`
+   * when `position` is selected.
+   * @default false
+   */
+  positions?: boolean;
+
+  /**
+   * The property name of a non-nullable, ever-increasing column, such as a
+   * creation date or an auto-increment id, that turns on snapshot mode. The
+   * first page pins the greatest value of the column as a high-watermark,
+   * carried by every cursor of the page, and later pages only read rows at
+   * or below it, so rows inserted meanwhile neither shift pages nor change
+   * counts. `pageInfo.hasNewerRecords` then tells whether such rows exist.
+   * @example 'createdAt'
+   */
+  snapshotColumn?: string;
+}
+
+/**
+ * Options of `paginateAll`, which walks every page of a query without
+ * counting.
+ */
+export interface PaginateAllOptions
+  extends Omit<PaginateOptions, 'countStrategy' | 'info'> {
+  /**
+   * A single column name, or an ordered list of sort keys each with its own
+   * direction. Defaults to the primary key of the entity (see `primaryKey`).
+   */
+  sortKeys?: string | SortKey[];
+
+  /**
+   * The number of nodes fetched per page. Defaults to the default page size.
+   */
+  pageSize?: number;
+
+  /**
+   * A checkpoint cursor to resume from. The walk starts after the node it
+   * points to.
+   */
+  after?: string;
+
+  /**
+   * Whether to yield each page, or each node
+   * @default 'page'
+   */
+  each?: 'page' | 'node';
+
+  /**
+   * Called with a cursor after each page (or node) has been processed, that
+   * is, when the next one is requested. Resuming from the latest checkpoint
+   * neither skips nor repeats a node. The walk waits for the returned
+   * promise.
+   */
+  onCheckpoint?: (cursor: string) => void | Promise<void>;
+
+  /**
+   * Stops the walk with the signal's reason before the next page (or node)
+   */
+  signal?: AbortSignal;
+}
+
+let paginationDefaults: PageSizeOptions = {};
+
+/**
+ * Sets the page size options used by every `paginate` call, which a call can
+ * still override through its own options. Replaces the previous defaults, so
+ * `configurePagination({})` restores the built-in ones.
+ *
+ * @param defaults The default page size options
+ * @throws Error when a page size is not a positive integer, or the default
+ * page size exceeds the maximum page size
+ */
+export function configurePagination(defaults: PageSizeOptions): void {
+  const { defaultPageSize, maxPageSize, pageSizeLimitMode } = defaults;
+  for (const [name, value] of Object.entries({
+    defaultPageSize,
+    maxPageSize,
+  })) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`"${name}" must be a positive integer, got ${value}`);
+    }
+  }
+  if (
+    defaultPageSize !== undefined &&
+    maxPageSize !== undefined &&
+    defaultPageSize > maxPageSize
+  ) {
+    throw new Error(
+      `"defaultPageSize" must not exceed "maxPageSize" (${maxPageSize}), got ${defaultPageSize}`,
+    );
+  }
+  if (
+    pageSizeLimitMode !== undefined &&
+    pageSizeLimitMode !== 'error' &&
+    pageSizeLimitMode !== 'clamp'
+  ) {
+    throw new Error(
+      `"pageSizeLimitMode" must be 'error' or 'clamp', got ${String(pageSizeLimitMode)}`,
+    );
+  }
+
+  paginationDefaults = { ...defaults };
+}
+
+/**
+ * Merges the options of a `paginate` call over the configured defaults.
+ *
+ * @param options The options of the call
+ * @returns The page size options to apply
+ */
+export function getPageSizeOptions(
+  options: PageSizeOptions,
+): PageSizeOptions & Required<Omit<PageSizeOptions, 'maxPageSize'>> {
+  return {
+    defaultPageSize:
+      options.defaultPageSize ?? paginationDefaults.defaultPageSize ?? 25,
+    maxPageSize: options.maxPageSize ?? paginationDefaults.maxPageSize,
+    pageSizeLimitMode:
+      options.pageSizeLimitMode ??
+      paginationDefaults.pageSizeLimitMode ??
+      'error',
+  };
+}
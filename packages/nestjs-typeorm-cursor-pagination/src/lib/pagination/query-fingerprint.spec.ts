@@ -0,0 +1,97 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DataSource } from 'typeorm';
+import {
+  TestProduct,
+  closeTestDatabase,
+  createTestDatabase,
+} from '../test-utils/test-database.setup';
+import { getQueryFingerprint } from './query-fingerprint';
+import { getSortColumns } from './sort-key';
+
+describe('getQueryFingerprint', () => {
+  let dataSource: DataSource;
+
+  beforeAll(async () => {
+    dataSource = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase(dataSource);
+  });
+
+  function fingerprint(
+    category: string,
+    column = 'price',
+    reverse = false,
+  ): string {
+    const query = dataSource
+      .getRepository(TestProduct)
+      .createQueryBuilder('product')
+      .where('product.category = :category', { category });
+    return getQueryFingerprint(
+      query,
+      getSortColumns(query, [{ column }], reverse),
+    );
+  }
+
+  it('should be stable for the same query', () => {
+    expect(fingerprint('Books')).toBe(fingerprint('Books'));
+  });
+
+  it('should change with the sort columns', () => {
+    expect(fingerprint('Books', 'name')).not.toBe(fingerprint('Books'));
+  });
+
+  it('should change with the sort direction', () => {
+    expect(fingerprint('Books', 'price', true)).not.toBe(fingerprint('Books'));
+  });
+
+  it('should change with the filter values', () => {
+    expect(fingerprint('Electronics')).not.toBe(fingerprint('Books'));
+  });
+
+  it('should change with the filter conditions', () => {
+    const query = dataSource
+      .getRepository(TestProduct)
+      .createQueryBuilder('product')
+      .where('product.category != :category', { category: 'Books' });
+
+    expect(
+      getQueryFingerprint(query, getSortColumns(query, [{ column: 'price' }])),
+    ).not.toBe(fingerprint('Books'));
+  });
+
+  it('should support bigint parameters', () => {
+    const query = dataSource
+      .getRepository(TestProduct)
+      .createQueryBuilder('product')
+      .where('product.stock > :stock', { stock: BigInt(10) });
+
+    expect(
+      getQueryFingerprint(query, getSortColumns(query, [{ column: 'price' }])),
+    ).toHaveLength(16);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { createHash } from 'node:crypto';
+import { SelectQueryBuilder } from 'typeorm';
+import { SortColumn } from './sort-key';
+
+const fingerprintLength = 16;
+
+/**
+ * Computes a short fingerprint of the shape of a paginated query: its sort
+ * columns with their direction and NULL placement, and its WHERE conditions
+ * with their parameter values. Cursors carry the fingerprint of the query
+ * they were issued for, so that they are not used with another query.
+ *
+ * @param query The query, before the cursor condition is applied
+ * @param sortColumns The sort columns of the query
+ * @returns The fingerprint
+ */
+export function getQueryFingerprint<T extends object>(
+  query: SelectQueryBuilder<T>,
+  sortColumns: SortColumn[],
+): string {
+  const { wheres, parameters } = query.expressionMap;
+  const shape = JSON.stringify(
+    {
+      sort: sortColumns.map(({ path, direction, nulls }) => [
+        path,
+        direction,
+        nulls,
+      ]),
+      where: wheres,
+      parameters: Object.keys(parameters)
+        .sort()
+        .map((name) => [name, parameters[name]]),
+    },
+    (_key, value: unknown) =>
+      typeof value === 'bigint' ? value.toString() : value,
+  );
+
+  return createHash('sha256')
+    .update(shape)
+    .digest('base64url')
+    .slice(0, fingerprintLength);
+}
@@ -0,0 +1,305 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { SelectQueryBuilder } from 'typeorm';
+import {
+  SortDirectionEnum,
+  SortNullsEnum,
+} from '../query-builder/order-by.input';
+import { applySortColumns, flipSortColumn, getSortColumns } from './sort-key';
+
+describe('sort keys', () => {
+  function createMockQueryBuilder(
+    type: string,
+    nullableColumns: string[] = [],
+  ): jest.Mocked<SelectQueryBuilder<object>> {
+    return {
+      alias: 'product',
+      connection: { options: { type } },
+      expressionMap: {
+        joinAttributes: [],
+        selects: [],
+        aliases: [
+          {
+            name: 'product',
+            hasMetadata: true,
+            metadata: {
+              findColumnWithPropertyPath: (propertyPath: string) => ({
+                isNullable: nullableColumns.includes(propertyPath),
+              }),
+            },
+          },
+        ],
+      },
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+    } as unknown as jest.Mocked<SelectQueryBuilder<object>>;
+  }
+
+  describe('getSortColumns', () => {
+    it('should resolve columns without an alias against the query alias', () => {
+      const qb = createMockQueryBuilder('postgres');
+
+      const [price] = getSortColumns(qb, 'price');
+      expect(price?.path).toBe('product.price');
+    });
+
+    it('should append the id column as a tiebreaker', () => {
+      const qb = createMockQueryBuilder('postgres');
+
+      const sortColumns = getSortColumns(qb, [
+        { column: 'product.price', direction: SortDirectionEnum.DESC },
+      ]);
+      expect(sortColumns.map((c) => [c.path, c.direction])).toEqual([
+        ['product.price', 'DESC'],
+        ['product.id', 'DESC'],
+      ]);
+    });
+
+    it('should not append the id column when it is already the last key', () => {
+      const qb = createMockQueryBuilder('postgres');
+
+      expect(getSortColumns(qb, 'product.id')).toHaveLength(1);
+    });
+
+    it('should append the primary columns of the entity as a tiebreaker', () => {
+      const qb = createMockQueryBuilder('postgres');
+      qb.expressionMap.mainAlias = {
+        hasMetadata: true,
+        metadata: {
+          primaryColumns: [
+            { propertyPath: 'tenantId' },
+            { propertyPath: 'sku' },
+          ],
+        },
+      } as unknown as typeof qb.expressionMap.mainAlias;
+
+      const sortColumns = getSortColumns(
+        qb,
+        ['product.sku'].map((column) => ({ column })),
+      );
+      expect(sortColumns.map((c) => c.path)).toEqual([
+        'product.sku',
+        'product.tenantId',
+      ]);
+    });
+
+    it('should prefer an explicit primary key', () => {
+      const qb = createMockQueryBuilder('postgres');
+
+      const sortColumns = getSortColumns(
+        qb,
+        'price',
+        false,
+        'product.productCode',
+      );
+      expect(sortColumns.map((c) => c.path)).toEqual([
+        'product.price',
+        'product.productCode',
+      ]);
+    });
+
+    it('should throw when no column is given', () => {
+      const qb = createMockQueryBuilder('postgres');
+
+      expect(() => getSortColumns(qb, [])).toThrow('Cursor column is required');
+    });
+
+    it('should default nulls to the database default', () => {
+      const postgres = createMockQueryBuilder('postgres', ['description']);
+      const sqlite = createMockQueryBuilder('better-sqlite3', ['description']);
+
+      expect(getSortColumns(postgres, 'description')[0]?.nulls).toBe('LAST');
+      expect(getSortColumns(sqlite, 'description')[0]?.nulls).toBe('FIRST');
+    });
+
+    it('should mark columns nullable from the entity metadata', () => {
+      const qb = createMockQueryBuilder('postgres', ['description']);
+
+      expect(getSortColumns(qb, 'description')[0]?.nullable).toBe(true);
+      expect(getSortColumns(qb, 'price')[0]?.nullable).toBe(false);
+    });
+
+    it('should reverse the direction and the null placement', () => {
+      const qb = createMockQueryBuilder('postgres', ['description']);
+
+      const [description] = getSortColumns(
+        qb,
+        [{ column: 'description', nulls: SortNullsEnum.FIRST }],
+        true,
+      );
+      expect(description?.direction).toBe('DESC');
+      expect(description?.nulls).toBe('LAST');
+    });
+
+    describe('sort expressions', () => {
+      it('should sort on an expression under its name', () => {
+        const qb = createMockQueryBuilder('postgres');
+
+        const [value] = getSortColumns(qb, [
+          {
+            column: 'inventoryValue',
+            expression: 'product.price * product.stock',
+          },
+        ]);
+        expect(value?.path).toBe('(product.price * product.stock)');
+        expect(value?.selectAlias).toBe('inventoryValue');
+        expect(value?.nullable).toBe(true);
+      });
+
+      it('should resolve an addSelect alias to its expression', () => {
+        const qb = createMockQueryBuilder('postgres');
+        qb.expressionMap.selects.push({
+          selection: 'COUNT(review.id)',
+          aliasName: 'reviewCount',
+        });
+
+        const [count] = getSortColumns(qb, 'reviewCount');
+        expect(count?.path).toBe('(COUNT(review.id))');
+        expect(count?.selectAlias).toBe('reviewCount');
+      });
+    });
+
+    describe('joined columns', () => {
+      function withJoin(
+        qb: jest.Mocked<SelectQueryBuilder<object>>,
+        join: Record<string, unknown>,
+      ) {
+        qb.expressionMap.aliases.push({
+          name: 'category',
+          hasMetadata: true,
+          metadata: {
+            findColumnWithPropertyPath: () => ({ isNullable: false }),
+          },
+        } as unknown as (typeof qb.expressionMap.aliases)[number]);
+        qb.expressionMap.joinAttributes.push({
+          alias: { name: 'category' },
+          direction: 'INNER',
+          isMany: false,
+          isSelected: true,
+          parentAlias: 'product',
+          relation: { propertyPath: 'category' },
+          ...join,
+        } as unknown as (typeof qb.expressionMap.joinAttributes)[number]);
+        return qb;
+      }
+
+      it('should read the value through the relation', () => {
+        const qb = withJoin(createMockQueryBuilder('postgres'), {});
+
+        const [name] = getSortColumns(qb, 'category.name');
+        expect(name?.path).toBe('category.name');
+        expect(name?.nodePath).toEqual(['category', 'name']);
+        expect(name?.nullable).toBe(false);
+      });
+
+      it('should mark columns of a left join nullable', () => {
+        const qb = withJoin(createMockQueryBuilder('postgres'), {
+          direction: 'LEFT',
+        });
+
+        expect(getSortColumns(qb, 'category.name')[0]?.nullable).toBe(true);
+      });
+
+      it('should reject a to-many relation', () => {
+        const qb = withJoin(createMockQueryBuilder('postgres'), {
+          isMany: true,
+        });
+
+        expect(() => getSortColumns(qb, 'category.name')).toThrow(
+          'Cannot sort by "category.name": "category" is a to-many relation',
+        );
+      });
+
+      it('should resolve an unknown prefix as a property path', () => {
+        const qb = createMockQueryBuilder('postgres');
+
+        const [city] = getSortColumns(qb, 'address.city');
+        expect(city?.path).toBe('product.address.city');
+        expect(city?.nodePath).toEqual(['address', 'city']);
+      });
+    });
+  });
+
+  describe('applySortColumns', () => {
+    const sortKeys = [
+      {
+        column: 'product.description',
+        direction: SortDirectionEnum.ASC,
+        nulls: SortNullsEnum.LAST,
+      },
+    ];
+
+    it('should omit the null placement when it is the database default', () => {
+      const qb = createMockQueryBuilder('postgres', ['description']);
+
+      applySortColumns(qb, getSortColumns(qb, sortKeys));
+      expect(qb.addOrderBy).toHaveBeenNthCalledWith(
+        1,
+        'product.description',
+        'ASC',
+      );
+    });
+
+    it('should use NULLS FIRST / NULLS LAST where supported', () => {
+      const qb = createMockQueryBuilder('better-sqlite3', ['description']);
+
+      applySortColumns(qb, getSortColumns(qb, sortKeys));
+      expect(qb.addOrderBy).toHaveBeenNthCalledWith(
+        1,
+        'product.description',
+        'ASC',
+        'NULLS LAST',
+      );
+    });
+
+    it('should emulate the null placement on MySQL', () => {
+      const qb = createMockQueryBuilder('mysql', ['description']);
+
+      applySortColumns(qb, getSortColumns(qb, sortKeys));
+      expect(qb.addOrderBy).toHaveBeenNthCalledWith(
+        1,
+        'CASE WHEN product.description IS NULL THEN 0 ELSE 1 END',
+        'DESC',
+      );
+      expect(qb.addOrderBy).toHaveBeenNthCalledWith(
+        2,
+        'product.description',
+        'ASC',
+      );
+    });
+
+    it('should apply flipped columns in the opposite order', () => {
+      const qb = createMockQueryBuilder('better-sqlite3', ['description']);
+
+      applySortColumns(qb, getSortColumns(qb, sortKeys).map(flipSortColumn));
+      expect(qb.addOrderBy).toHaveBeenNthCalledWith(
+        1,
+        'product.description',
+        'DESC',
+        'NULLS FIRST',
+      );
+    });
+  });
+});
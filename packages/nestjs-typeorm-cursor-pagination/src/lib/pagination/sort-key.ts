@@ -0,0 +1,410 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { SelectQueryBuilder } from 'typeorm';
+import {
+  SortDirectionEnum,
+  SortNullsEnum,
+} from '../query-builder/order-by.input';
+import {
+  getSqlDialect,
+  sortsNullsLast,
+  supportsNullsOrdering,
+} from '../utils/dialect';
+
+const timestampTypes = [
+  'timestamp',
+  'timestamptz',
+  'timestamp with time zone',
+  'timestamp without time zone',
+];
+
+/**
+ * A single column in an ordered list of sort keys.
+ * @example { column: 'product.price', direction: SortDirectionEnum.DESC }
+ */
+export interface SortKey {
+  /**
+   * The column to sort on, optionally prefixed with the query alias or the
+   * alias of a joined to-one relation
+   * @example 'product.price'
+   * @example 'category.name'
+   */
+  column: string;
+
+  /**
+   * A SQL expression to sort on instead of an entity property, such as a
+   * computed value or an aggregate. `column` is then the name the expression
+   * is selected as, and is added with `addSelect` when the query does not
+   * select it yet. A `column` naming an existing `addSelect` alias sorts on
+   * that selection without it.
+   * @example 'product.price * product.stock'
+   */
+  expression?: string;
+
+  /**
+   * The direction to sort the column in
+   * @default SortDirectionEnum.ASC
+   */
+  direction?: SortDirectionEnum;
+
+  /**
+   * Where null values are placed, relative to the direction of the column.
+   * Defaults to the database default (last in ascending order on Postgres,
+   * first on SQLite and MySQL).
+   */
+  nulls?: SortNullsEnum;
+}
+
+/**
+ * A sort key resolved against the query it is applied to.
+ * For internal use only.
+ */
+export interface SortColumn {
+  alias: string;
+  propertyPath: string;
+  path: string;
+  /** The property names leading to the sort value from a paginated node */
+  nodePath: string[];
+  /** The name a sort expression is selected as, read from raw results */
+  selectAlias?: string;
+  /**
+   * The name a timestamp column is also selected as in text, read from raw
+   * results, as Postgres keeps microseconds that a hydrated `Date` drops
+   */
+  textAlias?: string;
+  direction: 'ASC' | 'DESC';
+  nulls: 'FIRST' | 'LAST';
+  nullable: boolean;
+}
+
+/**
+ * Resolves the sort keys passed to `paginate` into sort columns. A column
+ * without an alias is resolved against the main alias of the query, and the
+ * primary key columns that are not sort keys already are appended as a
+ * tiebreaker, so that the resulting order is always deterministic.
+ *
+ * @param query The query the sort keys are applied to
+ * @param sortKeys A single column name, or an ordered list of sort keys.
+ * Defaults to the primary key of the main entity
+ * @param reverse Whether to reverse the direction of every sort key
+ * @param primaryKey The unique key of the main entity, defaults to its
+ * primary columns
+ * @returns The resolved sort columns, in order
+ */
+export function getSortColumns<T extends object>(
+  query: SelectQueryBuilder<T>,
+  sortKeys: string | SortKey[] | undefined,
+  reverse = false,
+  primaryKey?: string | string[],
+): SortColumn[] {
+  const keys: SortKey[] =
+    sortKeys === undefined
+      ? getPrimaryKeyColumns(query, primaryKey).map(({ propertyPath }) => ({
+          column: propertyPath,
+        }))
+      : typeof sortKeys === 'string'
+        ? [{ column: sortKeys }]
+        : sortKeys;
+  if (keys.length === 0) {
+    throw new Error('Cursor column is required');
+  }
+
+  const sortColumns = keys.map((key) => toSortColumn(query, key, reverse));
+  const lastColumn = sortColumns[sortColumns.length - 1] as SortColumn;
+  for (const column of getPrimaryKeyColumns(query, primaryKey)) {
+    if (sortColumns.some((sortColumn) => sortColumn.path === column.path)) {
+      continue;
+    }
+    sortColumns.push({
+      ...column,
+      direction: lastColumn.direction,
+      nulls: lastColumn.nulls,
+    });
+  }
+  return sortColumns;
+}
+
+/**
+ * Resolves the unique key of the main entity of the query. Without an
+ * explicit key, the primary columns of the entity metadata are used, falling
+ * back to `id`.
+ *
+ * @param query The query to resolve the key for
+ * @param primaryKey The property name(s) of the unique key
+ * @returns The key columns, in ascending order
+ */
+export function getPrimaryKeyColumns<T extends object>(
+  query: SelectQueryBuilder<T>,
+  primaryKey?: string | string[],
+): SortColumn[] {
+  let propertyPaths: string[];
+  if (primaryKey !== undefined) {
+    propertyPaths = Array.isArray(primaryKey) ? primaryKey : [primaryKey];
+  } else {
+    const mainAlias = query.expressionMap.mainAlias;
+    propertyPaths = mainAlias?.hasMetadata
+      ? mainAlias.metadata.primaryColumns.map((column) => column.propertyPath)
+      : [];
+  }
+  if (propertyPaths.length === 0) {
+    propertyPaths = ['id'];
+  }
+
+  return propertyPaths.map((propertyPath) => {
+    const unprefixed = propertyPath.startsWith(`${query.alias}.`)
+      ? propertyPath.slice(query.alias.length + 1)
+      : propertyPath;
+    return {
+      alias: query.alias,
+      propertyPath: unprefixed,
+      path: `${query.alias}.${unprefixed}`,
+      nodePath: unprefixed.split('.'),
+      textAlias: getTextAlias(query, query.alias, unprefixed),
+      direction: 'ASC',
+      nulls: 'FIRST',
+      nullable: false,
+    };
+  });
+}
+
+/**
+ * Reverses the order of a sort column, including where its null values are
+ * placed.
+ *
+ * @param column The sort column
+ * @returns The sort column in the opposite order
+ */
+export function flipSortColumn(column: SortColumn): SortColumn {
+  return {
+    ...column,
+    direction: column.direction === 'ASC' ? 'DESC' : 'ASC',
+    nulls: column.nulls === 'FIRST' ? 'LAST' : 'FIRST',
+  };
+}
+
+/**
+ * Applies the sort columns as the ORDER BY clause of the query. The null
+ * placement is only spelled out when it differs from the database default,
+ * and is emulated on databases without NULLS FIRST / NULLS LAST. Sort
+ * expressions that the query does not select yet are selected, so that their
+ * values can be read from the raw results, as are Postgres timestamps in text.
+ *
+ * @param query The query to order
+ * @param sortColumns The sort columns, in order
+ */
+export function applySortColumns<T extends object>(
+  query: SelectQueryBuilder<T>,
+  sortColumns: SortColumn[],
+): void {
+  const dialect = getSqlDialect(query.connection);
+  query.orderBy();
+  for (const column of sortColumns) {
+    if (column.selectAlias && !findSelection(query, column.selectAlias)) {
+      query.addSelect(column.path, column.selectAlias);
+    }
+    if (column.textAlias && !findSelection(query, column.textAlias)) {
+      query.addSelect(`CAST(${column.path} AS text)`, column.textAlias);
+    }
+    const nativeNulls =
+      (column.direction === 'ASC') === sortsNullsLast(dialect)
+        ? 'LAST'
+        : 'FIRST';
+    if (!column.nullable || column.nulls === nativeNulls) {
+      query.addOrderBy(column.path, column.direction);
+    } else if (supportsNullsOrdering(dialect)) {
+      query.addOrderBy(column.path, column.direction, `NULLS ${column.nulls}`);
+    } else {
+      query.addOrderBy(
+        `CASE WHEN ${column.path} IS NULL THEN 0 ELSE 1 END`,
+        column.nulls === 'FIRST' ? 'ASC' : 'DESC',
+      );
+      query.addOrderBy(column.path, column.direction);
+    }
+  }
+}
+
+function toSortColumn<T extends object>(
+  query: SelectQueryBuilder<T>,
+  key: SortKey,
+  reverse: boolean,
+): SortColumn {
+  const direction = key.direction === SortDirectionEnum.DESC ? 'DESC' : 'ASC';
+  const nulls = getNullsPlacement(query, key, direction);
+
+  const expression = key.expression ?? findSelection(query, key.column);
+  if (expression !== undefined) {
+    if (!key.column) {
+      throw new Error('Cursor column is required');
+    }
+    const column: SortColumn = {
+      alias: query.alias,
+      propertyPath: key.column,
+      path: `(${expression})`,
+      nodePath: [],
+      selectAlias: key.column,
+      direction,
+      nulls,
+      // The value of an expression may be null whatever its operands
+      nullable: true,
+    };
+    return reverse ? flipSortColumn(column) : column;
+  }
+
+  const [first, ...rest] = key.column.split('.');
+  const isAliased =
+    rest.length > 0 &&
+    query.expressionMap.aliases.some((candidate) => candidate.name === first);
+  const alias = isAliased ? (first as string) : query.alias;
+  const propertyPath = isAliased ? rest.join('.') : key.column;
+  if (!alias || !propertyPath) {
+    throw new Error('Cursor column is required');
+  }
+
+  const column: SortColumn = {
+    alias,
+    propertyPath,
+    path: `${alias}.${propertyPath}`,
+    nodePath: [
+      ...getRelationPath(query, alias, key.column),
+      ...propertyPath.split('.'),
+    ],
+    textAlias: getTextAlias(query, alias, propertyPath),
+    direction,
+    nulls,
+    nullable: key.nulls !== undefined || isNullable(query, alias, propertyPath),
+  };
+  return reverse ? flipSortColumn(column) : column;
+}
+
+function getNullsPlacement<T extends object>(
+  query: SelectQueryBuilder<T>,
+  key: SortKey,
+  direction: 'ASC' | 'DESC',
+): 'FIRST' | 'LAST' {
+  if (key.nulls) {
+    return key.nulls === SortNullsEnum.FIRST ? 'FIRST' : 'LAST';
+  }
+  const nullsLast = sortsNullsLast(getSqlDialect(query.connection));
+  return (direction === 'ASC') === nullsLast ? 'LAST' : 'FIRST';
+}
+
+/**
+ * Finds the expression selected with `addSelect` under an alias.
+ */
+function findSelection<T extends object>(
+  query: SelectQueryBuilder<T>,
+  selectAlias: string,
+): string | undefined {
+  return query.expressionMap.selects.find(
+    (select) => select.aliasName === selectAlias,
+  )?.selection;
+}
+
+/**
+ * Resolves the property names leading from a paginated node to the entity of
+ * a joined alias, so that sort values can be read from the node. The join
+ * must be a selected to-one join, as a to-many join has no single sort value
+ * per node.
+ */
+function getRelationPath<T extends object>(
+  query: SelectQueryBuilder<T>,
+  alias: string,
+  column: string,
+): string[] {
+  if (alias === query.alias) {
+    return [];
+  }
+
+  const join = query.expressionMap.joinAttributes.find(
+    (candidate) => candidate.alias.name === alias,
+  );
+  if (!join) {
+    throw new Error(
+      `Cannot sort by "${column}": "${alias}" is not joined to the query`,
+    );
+  }
+  if (join.isMany) {
+    throw new Error(
+      `Cannot sort by "${column}": "${alias}" is a to-many relation`,
+    );
+  }
+
+  const parentAlias = join.mapToPropertyParentAlias ?? join.parentAlias;
+  const propertyName =
+    join.mapToPropertyPropertyName ?? join.relation?.propertyPath;
+  if (!join.isSelected || !parentAlias || !propertyName) {
+    throw new Error(
+      `Cannot sort by "${column}": "${alias}" must be selected onto the ` +
+        'paginated entity, e.g. with leftJoinAndSelect',
+    );
+  }
+
+  return [...getRelationPath(query, parentAlias, column), propertyName];
+}
+
+function getTextAlias<T extends object>(
+  query: SelectQueryBuilder<T>,
+  alias: string,
+  propertyPath: string,
+): string | undefined {
+  if (getSqlDialect(query.connection) !== 'postgres') {
+    return undefined;
+  }
+  const queryAlias = query.expressionMap.aliases.find(
+    (candidate) => candidate.name === alias,
+  );
+  const type =
+    queryAlias?.hasMetadata &&
+    queryAlias.metadata.findColumnWithPropertyPath(propertyPath)?.type;
+  if (type !== Date && !timestampTypes.includes(type as string)) {
+    return undefined;
+  }
+  return `${alias}_${propertyPath.replace(/\./g, '_')}_text`;
+}
+
+function isNullable<T extends object>(
+  query: SelectQueryBuilder<T>,
+  alias: string,
+  propertyPath: string,
+): boolean {
+  // A column of a left-joined entity is null when there is nothing to join
+  const join = query.expressionMap.joinAttributes.find(
+    (candidate) => candidate.alias.name === alias,
+  );
+  if (join?.direction === 'LEFT') {
+    return true;
+  }
+
+  const queryAlias = query.expressionMap.aliases.find(
+    (candidate) => candidate.name === alias,
+  );
+  if (!queryAlias?.hasMetadata) {
+    return false;
+  }
+  return (
+    queryAlias.metadata.findColumnWithPropertyPath(propertyPath)?.isNullable ??
+    false
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { SelectQueryBuilder } from 'typeorm';
+import { EntityMetadata } from 'typeorm/metadata/EntityMetadata';
+import { FilterInput } from './inputs/filter.input';
+import { FiltersExpression } from './inputs/filters-expression.input';
+import {
+  UnknownFilterFieldError,
+  UnknownFilterRelationError,
+} from './filter.errors';
+import { FilterField } from './filter.options';
+import { coerceFilterValue } from './filter-values';
+import { ComparisonOperatorEnum } from './operators/comparison-operator.enum';
+import { LogicalOperatorEnum } from './operators/logical-operator.enum';
+import { isEmptyValue } from '../utils/is-empty-value';
+
+const identifier = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const logicalOperators = new Set<unknown>(Object.values(LogicalOperatorEnum));
+
+/** The operators whose values are compared with the column as they are */
+const coercedOperators = new Set<ComparisonOperatorEnum | undefined>([
+  ComparisonOperatorEnum.EQUAL,
+  ComparisonOperatorEnum.NOT,
+  ComparisonOperatorEnum.GREATER_THAN,
+  ComparisonOperatorEnum.GREATER_THAN_OR_EQUAL,
+  ComparisonOperatorEnum.LESS_THAN,
+  ComparisonOperatorEnum.LESS_THAN_OR_EQUAL,
+  ComparisonOperatorEnum.BETWEEN,
+  ComparisonOperatorEnum.IN,
+  ComparisonOperatorEnum.NOT_IN,
+  ComparisonOperatorEnum.ANY,
+]);
+
+/**
+ * The relation a filter joins under an alias.
+ */
+interface FilterJoin {
+  relationField: string;
+  metadata: EntityMetadata;
+}
+
+/**
+ * Resolves every field of a filters expression to the column it filters on,
+ * and checks it against the entity metadata of the query, so that no field
+ * or relation given by a client reaches the SQL unchecked:
+ * - with an allowlist, a field must be one of its public names, and is
+ *   replaced by the column it maps to. Clients cannot set `relationField`.
+ * - a field must be `alias.propertyPath`, where the alias is one of the
+ *   query or joined by the filter's `relationField`, and the property path
+ *   is a column of that alias' entity
+ * - a `relationField` must be `alias.propertyPath`, where the property path
+ *   is a relation of that alias' entity
+ *
+ * The values of comparisons are then coerced to the type of their column.
+ *
+ * @param qb The query the filters are applied to
+ * @param filtersExpression The filters expression to resolve
+ * @param fields An allowlist mapping public field names to columns
+ * @returns The filters expression, with every field resolved
+ * @throws UnknownFilterFieldError when a field is not allowed or is not a
+ * column
+ * @throws UnknownFilterRelationError when a relation field is not allowed or
+ * is not a relation
+ * @throws InvalidFilterValueError when a value does not fit its column
+ */
+export function resolveFilters<T extends object>(
+  qb: SelectQueryBuilder<T>,
+  filtersExpression: FiltersExpression,
+  fields?: Record<string, FilterField>,
+): FiltersExpression {
+  return resolveExpression(qb, filtersExpression, fields, new Map());
+}
+
+function resolveExpression<T extends object>(
+  qb: SelectQueryBuilder<T>,
+  fe: FiltersExpression,
+  fields: Record<string, FilterField> | undefined,
+  joins: Map<string, FilterJoin>,
+): FiltersExpression {
+  if (fe.operator !== undefined && !logicalOperators.has(fe.operator)) {
+    throw new Error(`Unknown logical operator: ${fe.operator}`);
+  }
+
+  return {
+    ...fe,
+    filters: fe.filters?.map((filter) =>
+      resolveFilter(qb, filter, fields, joins),
+    ),
+    childExpressions: fe.childExpressions?.map((child) =>
+      resolveExpression(qb, child, fields, joins),
+    ),
+  };
+}
+
+function resolveFilter<T extends object>(
+  qb: SelectQueryBuilder<T>,
+  filter: FilterInput,
+  fields: Record<string, FilterField> | undefined,
+  joins: Map<string, FilterJoin>,
+): FilterInput {
+  let { field, relationField } = filter;
+  if (fields) {
+    const allowed = Object.prototype.hasOwnProperty.call(fields, field)
+      ? fields[field]
+      : undefined;
+    if (!allowed) {
+      throw new UnknownFilterFieldError(filter.field);
+    }
+    if (relationField !== undefined) {
+      throw new UnknownFilterRelationError(relationField);
+    }
+    ({ field, relationField } =
+      typeof allowed === 'string' ? { field: allowed } : allowed);
+  }
+
+  const [aliasName = '', ...propertyPath] = field.split('.');
+  if (relationField && !identifier.test(aliasName)) {
+    throw new UnknownFilterFieldError(filter.field);
+  }
+  const metadata = relationField
+    ? joinRelation(qb, relationField, aliasName, joins)
+    : getAliasMetadata(qb, aliasName, joins);
+  const column = metadata?.findColumnWithPropertyPath(propertyPath.join('.'));
+  if (!column) {
+    throw new UnknownFilterFieldError(filter.field);
+  }
+
+  const value =
+    coercedOperators.has(filter.operator) && !isEmptyValue(filter.value)
+      ? coerceFilterValue(column, filter.value, filter.field)
+      : filter.value;
+  return { ...filter, field, relationField, value };
+}
+
+/**
+ * Checks that a relation can be joined under an alias: the relation must be
+ * one of an entity of the query, and the alias must be free, or already be
+ * the alias of that relation.
+ *
+ * @returns The entity metadata of the joined relation
+ */
+function joinRelation<T extends object>(
+  qb: SelectQueryBuilder<T>,
+  relationField: string,
+  aliasName: string,
+  joins: Map<string, FilterJoin>,
+): EntityMetadata {
+  const [ownerAlias = '', ...relationPath] = relationField.split('.');
+  const relation = getAliasMetadata(
+    qb,
+    ownerAlias,
+    joins,
+  )?.findRelationWithPropertyPath(relationPath.join('.'));
+  if (!relation) {
+    throw new UnknownFilterRelationError(relationField);
+  }
+
+  const join = joins.get(aliasName);
+  const joined = qb.expressionMap.joinAttributes.some(
+    (attribute) =>
+      attribute.alias.name === aliasName &&
+      attribute.entityOrProperty === relationField,
+  );
+  if (
+    (join && join.relationField !== relationField) ||
+    (!join && !joined && findAlias(qb, aliasName))
+  ) {
+    throw new UnknownFilterRelationError(relationField);
+  }
+
+  const metadata = relation.inverseEntityMetadata;
+  joins.set(aliasName, { relationField, metadata });
+  return metadata;
+}
+
+function getAliasMetadata<T extends object>(
+  qb: SelectQueryBuilder<T>,
+  aliasName: string,
+  joins: Map<string, FilterJoin>,
+): EntityMetadata | undefined {
+  const alias = findAlias(qb, aliasName);
+  if (alias?.hasMetadata) {
+    return alias.metadata;
+  }
+  return joins.get(aliasName)?.metadata;
+}
+
+function findAlias<T extends object>(
+  qb: SelectQueryBuilder<T>,
+  aliasName: string,
+) {
+  return qb.expressionMap.aliases.find(({ name }) => name === aliasName);
+}
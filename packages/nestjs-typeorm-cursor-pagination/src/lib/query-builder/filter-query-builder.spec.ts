@@ -27,6 +27,7 @@ import { FilterQueryBuilder } from './filter-query-builder';
 import { ComparisonOperatorEnum } from './operators/comparison-operator.enum';
 import { LogicalOperatorEnum } from './operators/logical-operator.enum';
 import { FiltersExpression } from './inputs/filters-expression.input';
+import { createMockExpressionMap } from '../test-utils/mock-expression-map';
 
 describe('FilterQueryBuilder', () => {
   let mockRepository: jest.Mocked<Repository<any>>;
@@ -36,6 +37,8 @@ describe('FilterQueryBuilder', () => {
     mockQueryBuilder = {
       leftJoinAndSelect: jest.fn().mockReturnThis(),
       where: jest.fn().mockReturnThis(),
+      expressionMap: createMockExpressionMap(['Invoice', 'Product', 'User']),
+      connection: { options: { type: 'postgres' } },
     };
 
     mockRepository = {
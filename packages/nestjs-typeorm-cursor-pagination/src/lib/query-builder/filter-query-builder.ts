@@ -24,6 +24,7 @@
 import { Repository } from 'typeorm';
 import { SelectQueryBuilder } from 'typeorm/query-builder/SelectQueryBuilder';
 
+import { FilterOptions } from './filter.options';
 import { FiltersExpression } from './inputs/filters-expression.input';
 import { JoinBuilder } from './join-builder';
 import { WhereBuilder } from './where-builder';
@@ -38,6 +39,7 @@ export class FilterQueryBuilder<T extends object> {
   constructor(
     entityRepository: Repository<T>,
     private filtersExpression?: FiltersExpression,
+    private readonly options: FilterOptions = {},
   ) {
     this.qb = entityRepository.createQueryBuilder();
   }
@@ -49,10 +51,18 @@ export class FilterQueryBuilder<T extends object> {
    * @returns The SelectQueryBuilder with the WHERE and JOIN clauses built
    */
   build() {
-    const jb = new JoinBuilder<T>(this.qb, this.filtersExpression);
+    const jb = new JoinBuilder<T>(
+      this.qb,
+      this.filtersExpression,
+      this.options,
+    );
     jb.build();
 
-    const wb = new WhereBuilder<T>(this.qb, this.filtersExpression);
+    const wb = new WhereBuilder<T>(
+      this.qb,
+      this.filtersExpression,
+      this.options,
+    );
     wb.build();
 
     return this.qb;
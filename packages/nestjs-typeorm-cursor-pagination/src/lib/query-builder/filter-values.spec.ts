@@ -0,0 +1,176 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { InvalidFilterValueError } from './filter.errors';
+import { coerceFilterValue } from './filter-values';
+
+describe('coerceFilterValue', () => {
+  const column = (options: Partial<ColumnMetadata>) =>
+    options as ColumnMetadata;
+
+  describe('numbers', () => {
+    it('should coerce numeric strings', () => {
+      expect(coerceFilterValue(column({ type: Number }), '100', 'price')).toBe(
+        100,
+      );
+      expect(coerceFilterValue(column({ type: 'int' }), ['1', 2], 'n')).toEqual(
+        [1, 2],
+      );
+    });
+
+    it('should reject strings that are not numbers', () => {
+      expect(() =>
+        coerceFilterValue(column({ type: Number }), 'abc', 'price'),
+      ).toThrow('Invalid value for filter field "price": expected a number');
+      expect(() =>
+        coerceFilterValue(column({ type: Number }), ' ', 'price'),
+      ).toThrow(InvalidFilterValueError);
+    });
+
+    it('should keep exact numbers as strings', () => {
+      expect(
+        coerceFilterValue(
+          column({ type: 'bigint' }),
+          '9007199254740993',
+          'views',
+        ),
+      ).toBe('9007199254740993');
+      expect(() =>
+        coerceFilterValue(column({ type: 'decimal' }), '1e3', 'amount'),
+      ).toThrow(InvalidFilterValueError);
+    });
+  });
+
+  describe('booleans', () => {
+    it('should coerce boolean strings and bits', () => {
+      const booleanColumn = column({ type: Boolean });
+
+      expect(
+        coerceFilterValue(booleanColumn, ['true', 'false', '1', 0], 'active'),
+      ).toEqual([true, false, true, false]);
+    });
+
+    it('should reject other values', () => {
+      expect(() =>
+        coerceFilterValue(column({ type: 'boolean' }), 'yes', 'active'),
+      ).toThrow('expected a boolean');
+    });
+  });
+
+  describe('dates', () => {
+    it('should coerce ISO 8601 strings to dates', () => {
+      expect(
+        coerceFilterValue(
+          column({ type: Date }),
+          '2024-01-31T12:00:00Z',
+          'createdAt',
+        ),
+      ).toEqual(new Date('2024-01-31T12:00:00Z'));
+    });
+
+    it('should keep the value of a date column', () => {
+      expect(
+        coerceFilterValue(column({ type: 'date' }), '2024-01-31', 'birthday'),
+      ).toBe('2024-01-31');
+    });
+
+    it('should reject invalid values of a date column', () => {
+      const dateColumn = column({ type: 'date' });
+
+      for (const value of [
+        '2024-02-30',
+        '2024-13-01',
+        'yesterday',
+        '2024-1-5',
+      ]) {
+        expect(() => coerceFilterValue(dateColumn, value, 'birthday')).toThrow(
+          'Invalid value for filter field "birthday": expected an ISO 8601 date',
+        );
+      }
+      expect(() =>
+        coerceFilterValue(dateColumn, '2024-01-31T12:00:00Z', 'birthday'),
+      ).toThrow(InvalidFilterValueError);
+    });
+
+    it('should reject days that do not exist in the calendar', () => {
+      expect(() =>
+        coerceFilterValue(column({ type: Date }), '2023-02-29T00:00:00Z', 'at'),
+      ).toThrow(InvalidFilterValueError);
+    });
+
+    it('should reject strings that are not ISO 8601 dates', () => {
+      expect(() =>
+        coerceFilterValue(column({ type: 'timestamp' }), '01/31/2024', 'at'),
+      ).toThrow('expected an ISO 8601 date');
+      expect(() =>
+        coerceFilterValue(column({ type: Date }), '2024-13-45', 'at'),
+      ).toThrow(InvalidFilterValueError);
+    });
+  });
+
+  describe('enums', () => {
+    const enumColumn = column({ type: 'enum', enum: ['draft', 'published'] });
+
+    it('should accept enum members', () => {
+      expect(coerceFilterValue(enumColumn, 'draft', 'status')).toBe('draft');
+    });
+
+    it('should coerce to numeric enum members', () => {
+      expect(
+        coerceFilterValue(column({ type: 'enum', enum: [1, 2] }), '2', 'level'),
+      ).toBe(2);
+    });
+
+    it('should reject other values', () => {
+      expect(() => coerceFilterValue(enumColumn, 'deleted', 'status')).toThrow(
+        'expected one of draft, published',
+      );
+    });
+  });
+
+  describe('UUIDs', () => {
+    it('should accept UUIDs', () => {
+      const id = '3f2504e0-4f89-11d3-9a0c-0305e82c3301';
+
+      expect(coerceFilterValue(column({ type: 'uuid' }), id, 'id')).toBe(id);
+    });
+
+    it('should reject other values', () => {
+      expect(() =>
+        coerceFilterValue(
+          column({ type: String, generationStrategy: 'uuid' }),
+          'not-a-uuid',
+          'id',
+        ),
+      ).toThrow('expected a UUID');
+    });
+  });
+
+  it('should leave values of other columns and null elements as they are', () => {
+    expect(coerceFilterValue(column({ type: String }), 42, 'name')).toBe(42);
+    expect(
+      coerceFilterValue(column({ type: Number }), [null, '1'], 'price'),
+    ).toEqual([null, 1]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { InvalidFilterValueError } from './filter.errors';
+
+const numberTypes = new Set<unknown>([
+  Number,
+  'number',
+  'int',
+  'int2',
+  'int4',
+  'integer',
+  'tinyint',
+  'smallint',
+  'mediumint',
+  'float',
+  'float4',
+  'float8',
+  'double',
+  'double precision',
+  'real',
+]);
+
+/** Numeric types read as strings, so that no precision is lost */
+const exactNumberTypes = new Set<unknown>([
+  'bigint',
+  'int8',
+  'decimal',
+  'dec',
+  'numeric',
+  'fixed',
+]);
+
+const booleanTypes = new Set<unknown>([Boolean, 'boolean', 'bool']);
+
+const dateTypes = new Set<unknown>([
+  Date,
+  'date',
+  'datetime',
+  'datetime2',
+  'smalldatetime',
+  'datetimeoffset',
+  'timestamp',
+  'timestamptz',
+  'timestamp with time zone',
+  'timestamp without time zone',
+]);
+
+const exactNumber = /^-?\d+(\.\d+)?$/;
+
+const isoDate =
+  /^(\d{4})-(\d{2})-(\d{2})([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Coerces a filter value, which clients often send as a string, to the type
+ * of the column it is compared with: numbers, booleans, ISO dates, enum
+ * members and UUIDs. Values of other columns are left as they are, and so
+ * are the elements of a list that are null.
+ *
+ * @param column The column the value is compared with
+ * @param value The value, or a list of values
+ * @param field The filter field, named in errors
+ * @returns The coerced value, or list of values
+ * @throws InvalidFilterValueError when a value does not fit the column
+ */
+export function coerceFilterValue(
+  column: ColumnMetadata,
+  value: unknown,
+  field: string,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((element) => coerceFilterValue(column, element, field));
+  }
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (column.enum) {
+    const member = column.enum.find(
+      (enumValue) => String(enumValue) === String(value),
+    );
+    if (member === undefined) {
+      throw new InvalidFilterValueError(
+        field,
+        `one of ${column.enum.join(', ')}`,
+      );
+    }
+    return member;
+  }
+  if (numberTypes.has(column.type)) {
+    const number = typeof value === 'string' ? Number(value) : value;
+    if (
+      typeof number !== 'number' ||
+      !Number.isFinite(number) ||
+      (typeof value === 'string' && value.trim() === '')
+    ) {
+      throw new InvalidFilterValueError(field, 'a number');
+    }
+    return number;
+  }
+  if (exactNumberTypes.has(column.type)) {
+    if (
+      typeof value === 'bigint' ||
+      (typeof value === 'number' && Number.isFinite(value))
+    ) {
+      return value;
+    }
+    if (typeof value !== 'string' || !exactNumber.test(value)) {
+      throw new InvalidFilterValueError(field, 'a number');
+    }
+    return value;
+  }
+  if (booleanTypes.has(column.type)) {
+    if (value === true || value === 'true' || value === 1 || value === '1') {
+      return true;
+    }
+    if (value === false || value === 'false' || value === 0 || value === '0') {
+      return false;
+    }
+    throw new InvalidFilterValueError(field, 'a boolean');
+  }
+  if (column.type === 'date' && typeof value === 'string') {
+    // A date column holds no time, so its value is compared as it is stored
+    if (value.length !== 10 || !parseIsoDate(value)) {
+      throw new InvalidFilterValueError(field, 'an ISO 8601 date');
+    }
+    return value;
+  }
+  if (dateTypes.has(column.type)) {
+    const date =
+      value instanceof Date
+        ? value
+        : typeof value === 'string'
+          ? parseIsoDate(value)
+          : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new InvalidFilterValueError(field, 'an ISO 8601 date');
+    }
+    return date;
+  }
+  if (column.type === 'uuid' || column.generationStrategy === 'uuid') {
+    if (typeof value !== 'string' || !uuid.test(value)) {
+      throw new InvalidFilterValueError(field, 'a UUID');
+    }
+    return value;
+  }
+  return value;
+}
+
+/**
+ * Parses an ISO 8601 date or date-time, rejecting days that do not exist in
+ * the calendar (such as February 30th), which `Date` would roll over.
+ */
+function parseIsoDate(value: string): Date | null {
+  const match = isoDate.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match.map(Number);
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  if (
+    calendarDate.getUTCFullYear() !== year ||
+    calendarDate.getUTCMonth() !== month - 1 ||
+    calendarDate.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,75 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { ComparisonOperatorEnum } from './operators/comparison-operator.enum';
+
+/**
+ * Thrown when a filter has an empty value and the empty value policy is
+ * `error`.
+ */
+export class EmptyFilterValueError extends Error {
+  constructor(
+    readonly field: string,
+    readonly operator?: ComparisonOperatorEnum,
+  ) {
+    super(`Filter on "${field}" must have a value`);
+    this.name = 'EmptyFilterValueError';
+  }
+}
+
+/**
+ * Thrown when a filter field is not in the allowlist of the query, or is not
+ * a column of the entity it refers to.
+ */
+export class UnknownFilterFieldError extends Error {
+  constructor(readonly field: string) {
+    super(`Unknown filter field "${field}"`);
+    this.name = 'UnknownFilterFieldError';
+  }
+}
+
+/**
+ * Thrown when a filter joins a relation that is not a relation of an entity
+ * of the query, under an alias that is taken, or when a client sets the
+ * relation of a filter whose fields are allowlisted.
+ */
+export class UnknownFilterRelationError extends Error {
+  constructor(readonly relationField: string) {
+    super(`Unknown filter relation "${relationField}"`);
+    this.name = 'UnknownFilterRelationError';
+  }
+}
+
+/**
+ * Thrown when a filter value does not fit the type of the column it is
+ * compared with, such as a word compared with a numeric column.
+ */
+export class InvalidFilterValueError extends Error {
+  constructor(
+    readonly field: string,
+    readonly expected: string,
+  ) {
+    super(`Invalid value for filter field "${field}": expected ${expected}`);
+    this.name = 'InvalidFilterValueError';
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+/**
+ * What a filter whose value is empty (null, undefined, an empty string or an
+ * empty array) means:
+ * - `ignore`: the filter is left out, so it matches every row
+ * - `match-nothing`: the filter matches no row
+ * - `error`: an `EmptyFilterValueError` is thrown
+ */
+export type EmptyValuePolicy = 'ignore' | 'match-nothing' | 'error';
+
+/**
+ * The column a public filter field maps to: `alias.propertyPath`, along
+ * with the relation to join for it when the alias is not one of the query.
+ * @example 'user.email'
+ * @example { field: 'company.name', relationField: 'user.company' }
+ */
+export type FilterField = string | { field: string; relationField?: string };
+
+/**
+ * Options that change how filters are turned into SQL.
+ */
+export interface FilterOptions {
+  /**
+   * What a filter whose value is empty means. The `is_null`, `is_not_null`,
+   * `is_empty` and `is_not_empty` operators take no value, so they are never
+   * empty.
+   * @default 'ignore'
+   */
+  emptyValuePolicy?: EmptyValuePolicy;
+
+  /**
+   * An allowlist mapping the public field names clients filter on to the
+   * columns they filter. Any other field is rejected. Without it, a field
+   * must be a column of an entity of the query. It is never taken from the
+   * configured defaults.
+   * @example { email: 'user.email', company: { field: 'company.name', relationField: 'user.company' } }
+   */
+  fields?: Record<string, FilterField>;
+}
+
+let filterDefaults: Omit<FilterOptions, 'fields'> = {};
+
+/**
+ * Sets the filter options used by every filter builder, which a builder can
+ * still override through its own options. Replaces the previous defaults, so
+ * `configureFilters({})` restores the built-in ones.
+ *
+ * @param defaults The default filter options
+ */
+export function configureFilters(
+  defaults: Omit<FilterOptions, 'fields'>,
+): void {
+  filterDefaults = { ...defaults };
+}
+
+/**
+ * Merges the options of a filter builder over the configured defaults.
+ *
+ * @param options The options of the builder
+ * @returns The filter options to apply
+ */
+export function getFilterOptions(
+  options: FilterOptions,
+): FilterOptions & Required<Pick<FilterOptions, 'emptyValuePolicy'>> {
+  return {
+    emptyValuePolicy:
+      options.emptyValuePolicy ?? filterDefaults.emptyValuePolicy ?? 'ignore',
+    fields: options.fields,
+  };
+}
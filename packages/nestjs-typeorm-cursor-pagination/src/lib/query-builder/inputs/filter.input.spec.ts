@@ -0,0 +1,62 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { validate } from 'class-validator';
+import { ComparisonOperatorEnum } from '../operators/comparison-operator.enum';
+import { FilterInput } from './filter.input';
+
+describe('FilterInput', () => {
+  const validateValue = async (value: unknown) => {
+    const input = Object.assign(new FilterInput(), {
+      field: 'Product.price',
+      operator: ComparisonOperatorEnum.IN,
+      value,
+    });
+    return (await validate(input)).map((error) => error.property);
+  };
+
+  it('should accept scalar values', async () => {
+    expect(await validateValue('100')).toEqual([]);
+    expect(await validateValue(100)).toEqual([]);
+    expect(await validateValue(true)).toEqual([]);
+    expect(await validateValue(new Date('2024-01-31'))).toEqual([]);
+  });
+
+  it('should accept arrays of scalars', async () => {
+    expect(await validateValue([100, 200])).toEqual([]);
+    expect(await validateValue(['a', 1, false])).toEqual([]);
+    expect(await validateValue([])).toEqual([]);
+  });
+
+  it('should accept a missing value', async () => {
+    expect(await validateValue(undefined)).toEqual([]);
+    expect(await validateValue(null)).toEqual([]);
+  });
+
+  it('should reject values that are not scalars', async () => {
+    expect(await validateValue({ $gt: 1 })).toEqual(['value']);
+    expect(await validateValue([1, [2]])).toEqual(['value']);
+    expect(await validateValue([1, null])).toEqual(['value']);
+    expect(await validateValue(Number.NaN)).toEqual(['value']);
+  });
+});
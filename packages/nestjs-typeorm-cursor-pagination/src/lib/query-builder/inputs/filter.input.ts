@@ -22,9 +22,42 @@
  * SOFTWARE.
  */
 
-import { IsDefined, IsEnum, IsOptional, IsString } from 'class-validator';
+import {
+  IsDefined,
+  IsEnum,
+  IsOptional,
+  IsString,
+  ValidateBy,
+  ValidationOptions,
+} from 'class-validator';
 import { ComparisonOperatorEnum } from '../operators/comparison-operator.enum';
 
+/**
+ * Checks that a value is a scalar (a string, a finite number, a boolean or a
+ * date) or an array of scalars. Whether it fits the column filtered on is
+ * checked when the filter is built.
+ */
+function IsFilterValue(validationOptions?: ValidationOptions) {
+  const isScalar = (value: unknown) =>
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (value instanceof Date && !Number.isNaN(value.getTime()));
+
+  return ValidateBy(
+    {
+      name: 'isFilterValue',
+      validator: {
+        validate: (value: unknown) =>
+          Array.isArray(value) ? value.every(isScalar) : isScalar(value),
+        defaultMessage: () =>
+          '$property must be a string, number, boolean or date, or an array of them',
+      },
+    },
+    validationOptions,
+  );
+}
+
 /**
  * This class represents the input for a filter
  * @example { field: 'Entity.field', operator: ComparisonOperatorEnum.EQUALS, value: 'value' }
@@ -53,13 +86,13 @@ export class FilterInput {
    * The value to filter on
    * @type {any}
    */
-  @IsString()
+  @IsFilterValue()
   @IsOptional()
   value?: any;
 
   /**
-   * The field to filter on in the relation
-   * For internal use only.
+   * The relation to join for the field, when its alias is not one of the query.
+   * For internal use only. It is rejected when the fields are allowlisted.
    * @type {string}
    * @example 'RelatedEntity.field'
    */
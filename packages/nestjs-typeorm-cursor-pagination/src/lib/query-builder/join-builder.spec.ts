@@ -27,6 +27,8 @@ import { JoinBuilder } from './join-builder';
 import { ComparisonOperatorEnum } from './operators/comparison-operator.enum';
 import { LogicalOperatorEnum } from './operators/logical-operator.enum';
 import { FiltersExpression } from './inputs/filters-expression.input';
+import { createMockExpressionMap } from '../test-utils/mock-expression-map';
+import { UnknownFilterFieldError } from './filter.errors';
 
 describe('JoinBuilder', () => {
   let mockQueryBuilder: jest.Mocked<SelectQueryBuilder<any>>;
@@ -34,6 +36,7 @@ describe('JoinBuilder', () => {
   beforeEach(() => {
     mockQueryBuilder = {
       leftJoinAndSelect: jest.fn().mockReturnThis(),
+      expressionMap: createMockExpressionMap(['Book', 'Product', 'User']),
     } as any;
   });
 
@@ -298,7 +301,7 @@ describe('JoinBuilder', () => {
   });
 
   describe('error handling', () => {
-    it('should throw error when entity name cannot be extracted', () => {
+    it('should reject a field without an entity name', () => {
       const filtersExpression: FiltersExpression = {
         operator: LogicalOperatorEnum.AND,
         filters: [
@@ -313,7 +316,7 @@ describe('JoinBuilder', () => {
 
       const builder = new JoinBuilder(mockQueryBuilder, filtersExpression);
 
-      expect(() => builder.build()).toThrow('Entity name is required');
+      expect(() => builder.build()).toThrow(UnknownFilterFieldError);
     });
   });
 
@@ -382,6 +385,9 @@ describe('JoinBuilder', () => {
 
   describe('complex scenarios', () => {
     it('should handle multiple levels of nested relations', () => {
+      Object.assign(mockQueryBuilder, {
+        expressionMap: createMockExpressionMap(['Invoice']),
+      });
       const filtersExpression: FiltersExpression = {
         operator: LogicalOperatorEnum.AND,
         filters: [
@@ -23,6 +23,8 @@
  */
 import { SelectQueryBuilder } from 'typeorm';
 import { FiltersExpression } from './inputs/filters-expression.input';
+import { resolveFilters } from './filter-fields';
+import { FilterOptions } from './filter.options';
 
 /**
  * JoinBuilder recursively traverses the FiltersExpression and adds
@@ -36,6 +38,7 @@ export class JoinBuilder<T extends object> {
   constructor(
     private readonly qb: SelectQueryBuilder<T>,
     private filtersExpression?: FiltersExpression,
+    private readonly options: FilterOptions = {},
   ) {}
 
   /**
@@ -47,7 +50,9 @@ export class JoinBuilder<T extends object> {
    */
   build() {
     if (!this.filtersExpression) return;
-    this.buildJoinEntitiesRec(this.filtersExpression);
+    this.buildJoinEntitiesRec(
+      resolveFilters(this.qb, this.filtersExpression, this.options.fields),
+    );
   }
 
   private buildJoinEntitiesRec(fe: FiltersExpression): void {
@@ -30,6 +30,7 @@ export enum ComparisonOperatorEnum {
    * Any operator.
    * Useful for arrays.
    * This is the same as the ANY operator in SQL, which means "is any of the values in the list".
+   * Other databases than Postgres run it as IN.
    * @example { id: { any: ['1', '2'] } }
    */
   ANY = 'any',
@@ -93,6 +94,7 @@ export enum ComparisonOperatorEnum {
    * Case-insensitive like operator.
    * Useful for strings.
    * This is the same as the ILIKE operator in SQL, which means "is like the value, ignoring case".
+   * Other databases than Postgres compare the lowercased field and value.
    * @example { id: { ilike: 'test' } }
    */
   ILIKE = 'ilike',
@@ -129,7 +131,40 @@ export enum ComparisonOperatorEnum {
    * Overlap operator.
    * Useful for arrays.
    * This is the same as the && operator in SQL, which means "has any elements in common".
+   * On SQLite and MySQL, the field is a JSON array instead. Other databases do not support it.
    * @example { id: { overlap: ['1', '2'] } }
    */
   OVERLAP = 'overlap',
+
+  /**
+   * Is null operator.
+   * Useful for nullable columns. It takes no value.
+   * This is the same as the IS NULL operator in SQL.
+   * @example { description: { is_null: true } }
+   */
+  IS_NULL = 'is_null',
+
+  /**
+   * Is not null operator.
+   * Useful for nullable columns. It takes no value.
+   * This is the same as the IS NOT NULL operator in SQL.
+   * @example { description: { is_not_null: true } }
+   */
+  IS_NOT_NULL = 'is_not_null',
+
+  /**
+   * Is empty operator.
+   * Useful for strings or arrays. It takes no value.
+   * Matches null, empty strings, and empty arrays for array and `simple-json` columns.
+   * @example { tags: { is_empty: true } }
+   */
+  IS_EMPTY = 'is_empty',
+
+  /**
+   * Is not empty operator.
+   * Useful for strings or arrays. It takes no value.
+   * Matches everything that the is empty operator does not.
+   * @example { tags: { is_not_empty: true } }
+   */
+  IS_NOT_EMPTY = 'is_not_empty',
 }
@@ -41,6 +41,23 @@ registerEnumType(SortDirectionEnum, {
   },
 });
 
+export enum SortNullsEnum {
+  FIRST = 'first',
+  LAST = 'last',
+}
+registerEnumType(SortNullsEnum, {
+  name: 'SortNullsEnum',
+  description: 'Where null values are placed in the sorted results',
+  valuesMap: {
+    FIRST: {
+      description: 'Place null values before all other values',
+    },
+    LAST: {
+      description: 'Place null values after all other values',
+    },
+  },
+});
+
 /**
  * This class is used to define the sort input for a query.
  */
@@ -61,4 +78,13 @@ export class OrderByInput {
   @IsEnum(SortDirectionEnum)
   @IsOptional()
   direction?: SortDirectionEnum;
+
+  @Field(() => SortNullsEnum, {
+    description:
+      'Where null values are placed, defaults to the database default',
+    nullable: true,
+  })
+  @IsEnum(SortNullsEnum)
+  @IsOptional()
+  nulls?: SortNullsEnum;
 }
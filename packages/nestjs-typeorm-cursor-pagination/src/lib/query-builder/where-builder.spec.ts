@@ -27,6 +27,9 @@ import { WhereBuilder } from './where-builder';
 import { ComparisonOperatorEnum } from './operators/comparison-operator.enum';
 import { LogicalOperatorEnum } from './operators/logical-operator.enum';
 import { FiltersExpression } from './inputs/filters-expression.input';
+import { EmptyFilterValueError } from './filter.errors';
+import { configureFilters } from './filter.options';
+import { createMockExpressionMap } from '../test-utils/mock-expression-map';
 
 describe('WhereBuilder', () => {
   let mockQueryBuilder: jest.Mocked<SelectQueryBuilder<any>>;
@@ -34,6 +37,8 @@ describe('WhereBuilder', () => {
   beforeEach(() => {
     mockQueryBuilder = {
       where: jest.fn().mockReturnThis(),
+      expressionMap: createMockExpressionMap(['Product', 'User']),
+      connection: { options: { type: 'postgres' } },
     } as any;
   });
 
@@ -275,6 +280,181 @@ describe('WhereBuilder', () => {
         })
       );
     });
+
+    it('should build NOT_IN filter', () => {
+      const filtersExpression: FiltersExpression = {
+        operator: LogicalOperatorEnum.AND,
+        filters: [
+          {
+            field: 'User.role',
+            operator: ComparisonOperatorEnum.NOT_IN,
+            value: ['admin', 'moderator'],
+          },
+        ],
+      };
+
+      const builder = new WhereBuilder(mockQueryBuilder, filtersExpression);
+      builder.build();
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        '(User.role NOT IN (:...User.role_1))',
+        expect.objectContaining({
+          'User.role_1': ['admin', 'moderator'],
+        })
+      );
+    });
+
+    it('should build CONTAINS filter', () => {
+      const filtersExpression: FiltersExpression = {
+        operator: LogicalOperatorEnum.AND,
+        filters: [
+          {
+            field: 'User.email',
+            operator: ComparisonOperatorEnum.CONTAINS,
+            value: 'example',
+          },
+        ],
+      };
+
+      const builder = new WhereBuilder(mockQueryBuilder, filtersExpression);
+      builder.build();
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        '(User.email LIKE :User.email_1)',
+        expect.objectContaining({
+          'User.email_1': '%example%',
+        })
+      );
+    });
+
+    it('should build NOT_LIKE filter', () => {
+      const filtersExpression: FiltersExpression = {
+        operator: LogicalOperatorEnum.AND,
+        filters: [
+          {
+            field: 'User.email',
+            operator: ComparisonOperatorEnum.NOT_LIKE,
+            value: 'spam',
+          },
+        ],
+      };
+
+      const builder = new WhereBuilder(mockQueryBuilder, filtersExpression);
+      builder.build();
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        '(User.email NOT LIKE :User.email_1)',
+        expect.objectContaining({
+          'User.email_1': '%spam%',
+        })
+      );
+    });
+  });
+
+  describe('dialect-specific operators', () => {
+    const buildWith = (
+      type: string,
+      operator: ComparisonOperatorEnum,
+      value: string | string[]
+    ) => {
+      const qb = {
+        ...mockQueryBuilder,
+        connection: { options: { type } },
+      } as unknown as SelectQueryBuilder<object>;
+      new WhereBuilder(qb, {
+        operator: LogicalOperatorEnum.AND,
+        filters: [{ field: 'Product.tags', operator, value }],
+      }).build();
+      return mockQueryBuilder.where.mock.calls.at(-1);
+    };
+
+    it('should build ANY filter with an array parameter on Postgres', () => {
+      expect(buildWith('postgres', ComparisonOperatorEnum.ANY, ['a', 'b'])).toEqual([
+        '(Product.tags = ANY(:Product.tags_1))',
+        { 'Product.tags_1': ['a', 'b'] },
+      ]);
+    });
+
+    it('should build ANY filter as IN on other dialects', () => {
+      expect(buildWith('better-sqlite3', ComparisonOperatorEnum.ANY, ['a'])).toEqual([
+        '(Product.tags IN (:...Product.tags_1))',
+        { 'Product.tags_1': ['a'] },
+      ]);
+    });
+
+    it('should build OVERLAP filter with && on Postgres', () => {
+      expect(buildWith('postgres', ComparisonOperatorEnum.OVERLAP, ['a', 'b'])).toEqual([
+        '(Product.tags && :Product.tags_1)',
+        { 'Product.tags_1': ['a', 'b'] },
+      ]);
+    });
+
+    it('should wrap a single value of ANY and OVERLAP in an array', () => {
+      expect(buildWith('postgres', ComparisonOperatorEnum.ANY, 'a')).toEqual([
+        '(Product.tags = ANY(:Product.tags_1))',
+        { 'Product.tags_1': ['a'] },
+      ]);
+      expect(buildWith('postgres', ComparisonOperatorEnum.OVERLAP, 'a')).toEqual([
+        '(Product.tags && :Product.tags_1)',
+        { 'Product.tags_1': ['a'] },
+      ]);
+      expect(buildWith('mysql', ComparisonOperatorEnum.OVERLAP, 'a')).toEqual([
+        '(JSON_OVERLAPS(Product.tags, CAST(:Product.tags_1 AS JSON)))',
+        { 'Product.tags_1': '["a"]' },
+      ]);
+    });
+
+    it('should build OVERLAP filter over a JSON array on SQLite', () => {
+      expect(buildWith('sqlite', ComparisonOperatorEnum.OVERLAP, ['a', 'b'])).toEqual([
+        '(EXISTS (SELECT 1 FROM json_each(Product.tags) WHERE json_each.value IN (:...Product.tags_1)))',
+        { 'Product.tags_1': ['a', 'b'] },
+      ]);
+    });
+
+    it('should build OVERLAP filter with JSON_OVERLAPS on MySQL', () => {
+      expect(buildWith('mysql', ComparisonOperatorEnum.OVERLAP, ['a', 'b'])).toEqual([
+        '(JSON_OVERLAPS(Product.tags, CAST(:Product.tags_1 AS JSON)))',
+        { 'Product.tags_1': '["a","b"]' },
+      ]);
+    });
+
+    it('should build ILIKE filter on Postgres', () => {
+      expect(buildWith('postgres', ComparisonOperatorEnum.ILIKE, 'Sale')).toEqual([
+        '(Product.tags ILIKE :Product.tags_1)',
+        { 'Product.tags_1': '%Sale%' },
+      ]);
+    });
+
+    it('should build ILIKE filter by lowercasing on other dialects', () => {
+      expect(buildWith('better-sqlite3', ComparisonOperatorEnum.ILIKE, 'Sale')).toEqual([
+        "(LOWER(Product.tags) LIKE LOWER(:Product.tags_1) ESCAPE '\\')",
+        { 'Product.tags_1': '%Sale%' },
+      ]);
+      expect(buildWith('mysql', ComparisonOperatorEnum.ILIKE, 'Sale')).toEqual([
+        '(LOWER(Product.tags) LIKE LOWER(:Product.tags_1))',
+        { 'Product.tags_1': '%Sale%' },
+      ]);
+    });
+
+    it('should build NOT_LIKE filter with an escape clause on SQLite', () => {
+      expect(buildWith('sqlite', ComparisonOperatorEnum.NOT_LIKE, 'Sale')).toEqual([
+        "(Product.tags NOT LIKE :Product.tags_1 ESCAPE '\\')",
+        { 'Product.tags_1': '%Sale%' },
+      ]);
+    });
+
+    it('should escape wildcards in the value of LIKE filters', () => {
+      expect(buildWith('postgres', ComparisonOperatorEnum.CONTAINS, '50%_off\\')).toEqual([
+        '(Product.tags LIKE :Product.tags_1)',
+        { 'Product.tags_1': '%50\\%\\_off\\\\%' },
+      ]);
+    });
+
+    it('should reject OVERLAP filter on other dialects', () => {
+      expect(() => buildWith('mssql', ComparisonOperatorEnum.OVERLAP, ['a'])).toThrow(
+        'Filter operation overlap is not supported on mssql'
+      );
+    });
   });
 
   describe('multiple filters with AND operator', () => {
@@ -504,6 +684,110 @@ describe('WhereBuilder', () => {
     });
   });
 
+  describe('null checks', () => {
+    const buildWith = (operator: ComparisonOperatorEnum) => {
+      new WhereBuilder(mockQueryBuilder, {
+        operator: LogicalOperatorEnum.AND,
+        filters: [{ field: 'Product.description', operator }],
+      }).build();
+      return mockQueryBuilder.where.mock.calls[0];
+    };
+
+    it('should build IS_NULL filter without a value', () => {
+      expect(buildWith(ComparisonOperatorEnum.IS_NULL)).toEqual([
+        '(Product.description IS NULL)',
+        {},
+      ]);
+    });
+
+    it('should build IS_NOT_NULL filter without a value', () => {
+      expect(buildWith(ComparisonOperatorEnum.IS_NOT_NULL)).toEqual([
+        '(Product.description IS NOT NULL)',
+        {},
+      ]);
+    });
+
+    it('should build IS_EMPTY filter matching null or an empty string', () => {
+      expect(buildWith(ComparisonOperatorEnum.IS_EMPTY)).toEqual([
+        "((Product.description IS NULL OR Product.description = ''))",
+        {},
+      ]);
+    });
+
+    it('should build IS_NOT_EMPTY filter', () => {
+      expect(buildWith(ComparisonOperatorEnum.IS_NOT_EMPTY)).toEqual([
+        "((Product.description IS NOT NULL AND NOT Product.description = ''))",
+        {},
+      ]);
+    });
+  });
+
+  describe('empty value policy', () => {
+    const filtersExpression: FiltersExpression = {
+      operator: LogicalOperatorEnum.OR,
+      filters: [
+        {
+          field: 'Product.category',
+          operator: ComparisonOperatorEnum.IN,
+          value: [],
+        },
+        {
+          field: 'Product.name',
+          operator: ComparisonOperatorEnum.EQUAL,
+          value: 'Laptop',
+        },
+      ],
+    };
+
+    afterEach(() => {
+      configureFilters({});
+    });
+
+    it('should leave out a filter with an empty value by default', () => {
+      new WhereBuilder(mockQueryBuilder, filtersExpression).build();
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        '(Product.name = :Product.name_1)',
+        { 'Product.name_1': 'Laptop' }
+      );
+    });
+
+    it('should match nothing for a filter with an empty value', () => {
+      new WhereBuilder(mockQueryBuilder, filtersExpression, {
+        emptyValuePolicy: 'match-nothing',
+      }).build();
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        '(1 = 0 or Product.name = :Product.name_1)',
+        { 'Product.name_1': 'Laptop' }
+      );
+    });
+
+    it('should throw for a filter with an empty value', () => {
+      const builder = new WhereBuilder(mockQueryBuilder, filtersExpression, {
+        emptyValuePolicy: 'error',
+      });
+
+      expect(() => builder.build()).toThrow(EmptyFilterValueError);
+      expect(() => builder.build()).toThrow(
+        'Filter on "Product.category" must have a value'
+      );
+    });
+
+    it('should apply the configured policy unless overridden', () => {
+      configureFilters({ emptyValuePolicy: 'error' });
+
+      expect(() =>
+        new WhereBuilder(mockQueryBuilder, filtersExpression).build()
+      ).toThrow(EmptyFilterValueError);
+      expect(() =>
+        new WhereBuilder(mockQueryBuilder, filtersExpression, {
+          emptyValuePolicy: 'ignore',
+        }).build()
+      ).not.toThrow();
+    });
+  });
+
   describe('parameter naming', () => {
     it('should create unique parameter names for each filter', () => {
       const filtersExpression: FiltersExpression = {
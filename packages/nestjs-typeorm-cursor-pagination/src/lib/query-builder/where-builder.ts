@@ -22,14 +22,70 @@
  * SOFTWARE.
  */
 import { SelectQueryBuilder } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
 import { ComparisonOperatorEnum } from './operators/comparison-operator.enum';
 
 import { FilterInput } from './inputs/filter.input';
 import { FiltersExpression } from './inputs/filters-expression.input';
+import { EmptyFilterValueError } from './filter.errors';
+import { resolveFilters } from './filter-fields';
+import { FilterOptions, getFilterOptions } from './filter.options';
 import { isEmptyValue } from '../utils/is-empty-value';
+import {
+  SqlDialect,
+  getLikeEscapeClause,
+  getSqlDialect,
+} from '../utils/dialect';
 
 type ParamValue = string | number | Array<string | number>;
 
+/**
+ * Escapes the wildcards of a LIKE pattern, and the escape character itself,
+ * with a backslash.
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Wraps a single value in an array, for operators that bind the list of
+ * values as one array parameter.
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/** The operators that take no value */
+const valuelessOperators = new Set<ComparisonOperatorEnum | undefined>([
+  ComparisonOperatorEnum.IS_NULL,
+  ComparisonOperatorEnum.IS_NOT_NULL,
+  ComparisonOperatorEnum.IS_EMPTY,
+  ComparisonOperatorEnum.IS_NOT_EMPTY,
+]);
+
+/** The column types whose values are strings */
+const stringColumnTypes = new Set<unknown>([
+  String,
+  'string',
+  'varchar',
+  'character varying',
+  'nvarchar',
+  'national varchar',
+  'varchar2',
+  'nvarchar2',
+  'char',
+  'character',
+  'nchar',
+  'national char',
+  'text',
+  'tinytext',
+  'mediumtext',
+  'longtext',
+  'ntext',
+  'citext',
+  'simple-array',
+]);
+
 /**
  * WhereBuilder recursively goes over the filters expression tree and
  * builds the WHERE clause of the SQL query.
@@ -39,11 +95,15 @@ type ParamValue = string | number | Array<string | number>;
 export class WhereBuilder<T extends object> {
   private params: Record<string, ParamValue> = {};
   private paramsCount = 0;
+  private readonly options: ReturnType<typeof getFilterOptions>;
 
   constructor(
     private readonly qb: SelectQueryBuilder<T>,
     private filtersExpression?: FiltersExpression,
-  ) {}
+    options: FilterOptions = {},
+  ) {
+    this.options = getFilterOptions(options);
+  }
 
   /**
    * Traverse the FiltersExpression and build the WHERE clause of the SQL query
@@ -57,15 +117,17 @@ export class WhereBuilder<T extends object> {
   build() {
     if (!this.filtersExpression) return;
 
-    const whereSql = this.buildExpressionRec(this.filtersExpression);
+    const filtersExpression = resolveFilters(
+      this.qb,
+      this.filtersExpression,
+      this.options.fields,
+    );
+    const whereSql = this.buildExpressionRec(filtersExpression);
     this.qb.where(whereSql, this.params);
   }
 
   private buildExpressionRec(fe: FiltersExpression): string {
-    const filtersWithValues = fe.filters?.filter(
-      (f) => !isEmptyValue(f.value),
-    );
-    const filters = filtersWithValues?.map((f) => this.buildFilter(f)) || [];
+    const filters = fe.filters?.flatMap((f) => this.buildFilter(f) ?? []) || [];
     const children =
       fe.childExpressions?.map((child) => this.buildExpressionRec(child)) || [];
 
@@ -74,12 +136,33 @@ export class WhereBuilder<T extends object> {
     return sqLExpr === '' ? '' : `(${sqLExpr})`;
   }
 
-  private buildFilter(filter: FilterInput) {
-    if (isEmptyValue(filter.value)) {
-      return; //throw new Error(`filter must have one or more values`);
+  private buildFilter(filter: FilterInput): string | undefined {
+    if (
+      !valuelessOperators.has(filter.operator) &&
+      isEmptyValue(filter.value)
+    ) {
+      return this.buildEmptyValueFilter(filter);
     }
     const paramName = `${filter.field}_${++this.paramsCount}`;
     switch (filter.operator) {
+      case ComparisonOperatorEnum.IS_NULL: {
+        return `${filter.field} IS NULL`;
+      }
+      case ComparisonOperatorEnum.IS_NOT_NULL: {
+        return `${filter.field} IS NOT NULL`;
+      }
+      case ComparisonOperatorEnum.IS_EMPTY: {
+        const isEmpty = this.getEmptyComparison(filter.field);
+        return isEmpty
+          ? `(${filter.field} IS NULL OR ${isEmpty})`
+          : `${filter.field} IS NULL`;
+      }
+      case ComparisonOperatorEnum.IS_NOT_EMPTY: {
+        const isEmpty = this.getEmptyComparison(filter.field);
+        return isEmpty
+          ? `(${filter.field} IS NOT NULL AND NOT ${isEmpty})`
+          : `${filter.field} IS NOT NULL`;
+      }
       case ComparisonOperatorEnum.EQUAL: {
         this.params[paramName] = filter.value;
         return `${filter.field} = :${paramName}`;
@@ -95,12 +178,10 @@ export class WhereBuilder<T extends object> {
         return `${filter.field} IN (:...${paramName})`;
       }
       case ComparisonOperatorEnum.ILIKE: {
-        this.params[paramName] = `%${filter.value}%`;
-        return `${filter.field} ILIKE :${paramName}`;
+        return this.buildLike(filter, paramName, { ignoreCase: true });
       }
       case ComparisonOperatorEnum.LIKE: {
-        this.params[paramName] = `%${filter.value}%`;
-        return `${filter.field} LIKE :${paramName}`;
+        return this.buildLike(filter, paramName);
       }
       case ComparisonOperatorEnum.GREATER_THAN: {
         this.params[paramName] = filter.value;
@@ -122,9 +203,141 @@ export class WhereBuilder<T extends object> {
         this.params[paramName] = filter.value;
         return `${filter.field} != :${paramName}`;
       }
+      case ComparisonOperatorEnum.NOT_IN: {
+        this.params[paramName] = filter.value;
+        return `${filter.field} NOT IN (:...${paramName})`;
+      }
+      case ComparisonOperatorEnum.CONTAINS: {
+        return this.buildLike(filter, paramName);
+      }
+      case ComparisonOperatorEnum.NOT_LIKE: {
+        return this.buildLike(filter, paramName, { negate: true });
+      }
+      case ComparisonOperatorEnum.ANY: {
+        this.params[paramName] = toArray(filter.value);
+        // Only Postgres binds an array as a single parameter
+        return this.getDialect() === 'postgres'
+          ? `${filter.field} = ANY(:${paramName})`
+          : `${filter.field} IN (:...${paramName})`;
+      }
+      case ComparisonOperatorEnum.OVERLAP: {
+        return this.buildOverlap(filter, paramName);
+      }
       default: {
         throw new Error(`Unknown filter operation: ${filter.operator}`);
       }
     }
   }
+
+  /**
+   * Builds a filter matching the rows whose field contains the value. The
+   * wildcards of the value (`%` and `_`) are escaped, so they match
+   * literally. Postgres ignores case with ILIKE, and other databases compare
+   * the lowercased field and value, as their LIKE ignores case or not
+   * depending on their collation or settings.
+   */
+  private buildLike(
+    filter: FilterInput,
+    paramName: string,
+    { ignoreCase = false, negate = false } = {},
+  ) {
+    const dialect = this.getDialect();
+    const escape = getLikeEscapeClause(dialect);
+    const like = negate ? 'NOT LIKE' : 'LIKE';
+    this.params[paramName] = `%${escapeLikePattern(String(filter.value))}%`;
+
+    if (!ignoreCase) {
+      return `${filter.field} ${like} :${paramName}${escape}`;
+    }
+    if (dialect === 'postgres') {
+      const ilike = negate ? 'NOT ILIKE' : 'ILIKE';
+      return `${filter.field} ${ilike} :${paramName}${escape}`;
+    }
+    return `LOWER(${filter.field}) ${like} LOWER(:${paramName})${escape}`;
+  }
+
+  /**
+   * Builds an OVERLAP filter, which matches the rows whose array column has
+   * any element in common with the value: a native array on Postgres, and a
+   * JSON array (e.g. a `simple-json` column) on SQLite and MySQL.
+   */
+  private buildOverlap(filter: FilterInput, paramName: string) {
+    const dialect = this.getDialect();
+    const values = toArray(filter.value);
+    switch (dialect) {
+      case 'postgres': {
+        this.params[paramName] = values;
+        return `${filter.field} && :${paramName}`;
+      }
+      case 'sqlite': {
+        this.params[paramName] = values;
+        return `EXISTS (SELECT 1 FROM json_each(${filter.field}) WHERE json_each.value IN (:...${paramName}))`;
+      }
+      case 'mysql': {
+        this.params[paramName] = JSON.stringify(values);
+        return `JSON_OVERLAPS(${filter.field}, CAST(:${paramName} AS JSON))`;
+      }
+      default: {
+        throw new Error(
+          `Filter operation ${filter.operator} is not supported on ${dialect ?? 'this database'}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Applies the empty value policy to a filter whose value is empty.
+   *
+   * @returns The SQL of the filter, or undefined when it is left out
+   */
+  private buildEmptyValueFilter(filter: FilterInput): string | undefined {
+    switch (this.options.emptyValuePolicy) {
+      case 'ignore': {
+        return undefined;
+      }
+      case 'match-nothing': {
+        return '1 = 0';
+      }
+      case 'error': {
+        throw new EmptyFilterValueError(filter.field, filter.operator);
+      }
+    }
+  }
+
+  /**
+   * Builds the comparison that matches an empty value of a field, other than
+   * null: an empty array for array and `simple-json` columns, and an empty
+   * string for string columns. Fields that are not columns of a known entity
+   * are compared as strings.
+   *
+   * @returns The comparison, or null when the column cannot hold an empty
+   * value
+   */
+  private getEmptyComparison(field: string): string | null {
+    const column = this.findColumn(field);
+    if (column?.isArray) {
+      return `cardinality(${field}) = 0`;
+    }
+    if (column?.type === 'simple-json') {
+      return `${field} = '[]'`;
+    }
+    if (column && !stringColumnTypes.has(column.type)) {
+      return null;
+    }
+    return `${field} = ''`;
+  }
+
+  private findColumn(field: string): ColumnMetadata | undefined {
+    const [aliasName, ...propertyPath] = field.split('.');
+    const alias = this.qb.expressionMap.aliases.find(
+      ({ name }) => name === aliasName,
+    );
+    return alias?.hasMetadata
+      ? alias.metadata.findColumnWithPropertyPath(propertyPath.join('.'))
+      : undefined;
+  }
+
+  private getDialect(): SqlDialect | null {
+    return getSqlDialect(this.qb.connection);
+  }
 }
@@ -1,8 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 
-import { Repository } from 'typeorm';
+import { ObjectLiteral, Repository } from 'typeorm';
 import { PaginationArgs } from '../pagination/pagination.args';
-import { NodeEntity } from '../entities/NodeEntity';
 import { IPaginatedType } from '../pagination/paginated';
 
 /**
@@ -13,7 +12,7 @@ import { IPaginatedType } from '../pagination/paginated';
  */
 @Injectable()
 export abstract class BaseEntityPaginationService<
-  T extends NodeEntity,
+  T extends ObjectLiteral,
   U extends PaginationArgs,
 > {
   protected readonly logger: Logger;
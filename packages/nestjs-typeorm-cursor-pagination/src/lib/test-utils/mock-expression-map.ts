@@ -0,0 +1,52 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+/**
+ * Entity metadata in which every property path is a string column, and a
+ * relation to another such entity.
+ */
+const anyEntityMetadata = {
+  findColumnWithPropertyPath: () => ({ type: String }),
+  findRelationWithPropertyPath: () => ({
+    inverseEntityMetadata: anyEntityMetadata,
+  }),
+};
+
+/**
+ * Builds the expression map of a mocked query builder, for unit tests of the
+ * filter builders, which check every field against the entity metadata.
+ *
+ * @param aliasNames The aliases of the query, whose entities accept every
+ * column and relation
+ * @returns The expression map
+ */
+export function createMockExpressionMap(aliasNames: string[]) {
+  return {
+    aliases: aliasNames.map((name) => ({
+      name,
+      hasMetadata: true,
+      metadata: anyEntityMetadata,
+    })),
+    joinAttributes: [],
+  };
+}
@@ -28,6 +28,7 @@ import {
   PrimaryColumn,
   Column,
   ManyToOne,
+  OneToMany,
   JoinColumn,
 } from 'typeorm';
 import { NodeEntity } from '../entities/NodeEntity';
@@ -67,31 +68,123 @@ export class TestProduct implements NodeEntity {
   @Column({ nullable: true })
   description?: string;
 
-  @Column({ type: 'datetime' })
+  @Column({ type: Date })
   createdAt!: Date;
 
   @Column({ type: 'int', default: 0 })
   stock!: number;
 
+  @Column({ type: 'simple-json', nullable: true })
+  tags?: string[];
+
+  @Column({ default: false })
+  featured!: boolean;
+
   @Column({ nullable: true })
   categoryId?: string;
 
   @ManyToOne(() => TestCategory, { nullable: true })
   @JoinColumn({ name: 'categoryId' })
   categoryRelation?: TestCategory;
+
+  @OneToMany(() => TestReview, (review) => review.product)
+  reviews?: TestReview[];
 }
 
 /**
- * Creates an in-memory SQLite database for testing
+ * Test review entity for to-many join and aggregate tests
  */
-export async function createTestDatabase(): Promise<DataSource> {
-  const dataSource = new DataSource({
-    type: 'better-sqlite3',
-    database: ':memory:',
-    entities: [TestProduct, TestCategory],
-    synchronize: true,
-    logging: false,
-  });
+@Entity('test_reviews')
+export class TestReview {
+  @PrimaryColumn()
+  id!: string;
+
+  @Column()
+  productId!: string;
+
+  @Column({ type: 'int' })
+  rating!: number;
+
+  @ManyToOne(() => TestProduct, (product) => product.reviews)
+  @JoinColumn({ name: 'productId' })
+  product?: TestProduct;
+}
+
+/**
+ * Test entity with a differently named, numeric primary key
+ */
+@Entity('test_legacy_products')
+export class TestLegacyProduct {
+  @PrimaryColumn({ type: 'int' })
+  productCode!: number;
+
+  @Column()
+  name!: string;
+
+  @Column()
+  price!: number;
+}
+
+/**
+ * Test entity with a composite primary key
+ */
+@Entity('test_inventory_items')
+export class TestInventoryItem {
+  @PrimaryColumn()
+  tenantId!: string;
+
+  @PrimaryColumn()
+  sku!: string;
+
+  @Column({ type: 'int' })
+  quantity!: number;
+}
+
+/**
+ * Test entity with a native array column, only created on Postgres
+ */
+@Entity('test_labeled_items')
+export class TestLabeledItem {
+  @PrimaryColumn()
+  id!: string;
+
+  @Column('text', { array: true })
+  labels!: string[];
+}
+
+const testEntities = [
+  TestProduct,
+  TestCategory,
+  TestReview,
+  TestLegacyProduct,
+  TestInventoryItem,
+];
+
+/**
+ * Creates an in-memory SQLite database for testing, or a fresh schema in the
+ * Postgres database at `postgresUrl` when one is given
+ */
+export async function createTestDatabase(
+  postgresUrl?: string
+): Promise<DataSource> {
+  const dataSource = new DataSource(
+    postgresUrl
+      ? {
+          type: 'postgres',
+          url: postgresUrl,
+          entities: [...testEntities, TestLabeledItem],
+          synchronize: true,
+          dropSchema: true,
+          logging: false,
+        }
+      : {
+          type: 'better-sqlite3',
+          database: ':memory:',
+          entities: testEntities,
+          synchronize: true,
+          logging: false,
+        }
+  );
 
   await dataSource.initialize();
   return dataSource;
@@ -0,0 +1,99 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DataSource } from 'typeorm';
+
+/**
+ * The SQL dialects the library generates dialect-specific SQL for.
+ */
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite' | 'mssql' | 'oracle';
+
+/**
+ * Detects the SQL dialect of a connection from its driver type.
+ *
+ * @param connection The connection (e.g. `query.connection`)
+ * @returns The SQL dialect, or null when the driver is not recognized
+ */
+export function getSqlDialect(connection: DataSource): SqlDialect | null {
+  switch (connection.options.type) {
+    case 'postgres':
+    case 'aurora-postgres':
+    case 'cockroachdb':
+      return 'postgres';
+    case 'mysql':
+    case 'mariadb':
+    case 'aurora-mysql':
+      return 'mysql';
+    case 'sqlite':
+    case 'better-sqlite3':
+    case 'sqljs':
+    case 'capacitor':
+    case 'cordova':
+    case 'expo':
+    case 'nativescript':
+    case 'react-native':
+      return 'sqlite';
+    case 'mssql':
+      return 'mssql';
+    case 'oracle':
+      return 'oracle';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether the dialect sorts NULL values after every other value in
+ * ascending order, when no NULLS FIRST / NULLS LAST clause is given.
+ *
+ * @param dialect The SQL dialect
+ * @returns True when NULL values sort last in ascending order
+ */
+export function sortsNullsLast(dialect: SqlDialect | null): boolean {
+  return dialect === 'postgres' || dialect === 'oracle';
+}
+
+/**
+ * Whether the dialect supports the NULLS FIRST / NULLS LAST clause in
+ * ORDER BY.
+ *
+ * @param dialect The SQL dialect
+ * @returns True when the clause is supported
+ */
+export function supportsNullsOrdering(dialect: SqlDialect | null): boolean {
+  return dialect === 'postgres' || dialect === 'oracle' || dialect === 'sqlite';
+}
+
+/**
+ * The ESCAPE clause that makes a backslash escape the wildcards of a LIKE
+ * pattern. Postgres and MySQL escape with a backslash by default, and MySQL
+ * would read a backslash in the clause as the start of an escape sequence.
+ *
+ * @param dialect The SQL dialect
+ * @returns The clause, with a leading space, or an empty string when none is
+ * needed
+ */
+export function getLikeEscapeClause(dialect: SqlDialect | null): string {
+  return dialect === 'postgres' || dialect === 'mysql' ? '' : " ESCAPE '\\'";
+}
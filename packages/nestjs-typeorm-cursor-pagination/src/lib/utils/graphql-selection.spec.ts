@@ -0,0 +1,95 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLResolveInfo,
+  OperationDefinitionNode,
+  parse,
+} from 'graphql';
+import { isFieldSelected } from './graphql-selection';
+
+function createInfo(query: string): GraphQLResolveInfo {
+  const document = parse(query);
+  const operation = document.definitions.find(
+    (definition) => definition.kind === 'OperationDefinition',
+  ) as OperationDefinitionNode;
+  const fragments = Object.fromEntries(
+    document.definitions
+      .filter((definition) => definition.kind === 'FragmentDefinition')
+      .map((definition) => [
+        (definition as FragmentDefinitionNode).name.value,
+        definition,
+      ]),
+  );
+  return {
+    fieldNodes: [operation.selectionSet.selections[0] as FieldNode],
+    fragments,
+  } as unknown as GraphQLResolveInfo;
+}
+
+describe('isFieldSelected', () => {
+  const countFields = ['totalCount', 'countBefore', 'countAfter'];
+
+  it('should find a directly selected field', () => {
+    const info = createInfo(
+      '{ products { pageInfo { hasNextPage totalCount } } }',
+    );
+
+    expect(isFieldSelected(info, ['pageInfo'], countFields)).toBe(true);
+  });
+
+  it('should return false when none of the fields is selected', () => {
+    const info = createInfo(
+      '{ products { edges { cursor } pageInfo { hasNextPage endCursor } } }',
+    );
+
+    expect(isFieldSelected(info, ['pageInfo'], countFields)).toBe(false);
+  });
+
+  it('should return false when the parent field is not selected', () => {
+    const info = createInfo('{ products { edges { cursor } } }');
+
+    expect(isFieldSelected(info, ['pageInfo'], countFields)).toBe(false);
+  });
+
+  it('should follow fragment spreads', () => {
+    const info = createInfo(`
+      query { products { ...Connection } }
+      fragment Connection on ProductConnection { pageInfo { ...Counts } }
+      fragment Counts on PageInfo { countAfter }
+    `);
+
+    expect(isFieldSelected(info, ['pageInfo'], countFields)).toBe(true);
+  });
+
+  it('should follow inline fragments', () => {
+    const info = createInfo(
+      '{ products { pageInfo { ... on PageInfo { countBefore } } } }',
+    );
+
+    expect(isFieldSelected(info, ['pageInfo'], countFields)).toBe(true);
+  });
+});
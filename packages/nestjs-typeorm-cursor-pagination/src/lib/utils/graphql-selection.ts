@@ -0,0 +1,84 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2022 Adam Dennis (@adamwdennis)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type {
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLResolveInfo,
+  SelectionSetNode,
+} from 'graphql';
+
+/**
+ * Checks whether any of the given fields is selected at the given path below
+ * the field being resolved, following fragment spreads and inline fragments.
+ *
+ * @param info The resolve info of the field being resolved
+ * @param path The path of the parent field below the resolved field
+ * @param fieldNames The field names to look for
+ * @returns True when at least one of the fields is selected
+ * @example isFieldSelected(info, ['pageInfo'], ['totalCount'])
+ */
+export function isFieldSelected(
+  info: GraphQLResolveInfo,
+  path: string[],
+  fieldNames: string[],
+): boolean {
+  let fields: FieldNode[] = [...info.fieldNodes];
+  for (const name of path) {
+    fields = fields.flatMap((field) =>
+      collectFields(field.selectionSet, info.fragments).filter(
+        (child) => child.name.value === name,
+      ),
+    );
+  }
+  return fields.some((field) =>
+    collectFields(field.selectionSet, info.fragments).some((child) =>
+      fieldNames.includes(child.name.value),
+    ),
+  );
+}
+
+function collectFields(
+  selectionSet: SelectionSetNode | undefined,
+  fragments: Record<string, FragmentDefinitionNode>,
+): FieldNode[] {
+  if (!selectionSet) {
+    return [];
+  }
+  return selectionSet.selections.flatMap((selection) => {
+    switch (selection.kind) {
+      case 'Field':
+        return [selection];
+      case 'InlineFragment':
+        return collectFields(selection.selectionSet, fragments);
+      case 'FragmentSpread':
+        return collectFields(
+          fragments[selection.name.value]?.selectionSet,
+          fragments,
+        );
+      default:
+        return [];
+    }
+  });
+}